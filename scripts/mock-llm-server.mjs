@@ -0,0 +1,170 @@
+// Local stand-in for an OpenAI-compatible chat completions endpoint.
+// Select the "OpenAI-compatible" provider with base URL http://localhost:8787/v1
+// to exercise the whole generation flow without network access.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const CHUNK_SIZE = 16;
+const CHUNK_DELAY_MS = 40;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const titleOf = (prompt) => prompt.trim().split(/\s+/).slice(0, 4).join(' ') || 'Untitled System';
+
+const DIAGRAM = `graph TB
+    Client[Web Client] --> Gateway[API Gateway]
+    Gateway --> App[Application Service]
+    App --> DB[(Primary Database)]`;
+
+const buildAnswer = (prompt) => {
+  const title = titleOf(prompt);
+  const structured = {
+    title,
+    components: [
+      { id: 'client', name: 'Web Client', type: 'frontend', technology: 'React' },
+      { id: 'gateway', name: 'API Gateway', type: 'gateway', technology: 'NGINX' },
+      { id: 'app', name: 'Application Service', type: 'service', technology: 'Node.js' },
+      { id: 'db', name: 'Primary Database', type: 'database', technology: 'PostgreSQL' },
+    ],
+    relationships: [
+      { from: 'client', to: 'gateway', protocol: 'HTTPS' },
+      { from: 'gateway', to: 'app', protocol: 'HTTP' },
+      { from: 'app', to: 'db', protocol: 'SQL' },
+    ],
+    technologyStack: [
+      { category: 'Frontend', name: 'React' },
+      { category: 'Backend', name: 'Node.js' },
+      { category: 'Database', name: 'PostgreSQL' },
+    ],
+    risks: [{ description: 'The primary database is a single point of failure', severity: 'medium' }],
+    assumptions: ['Traffic fits within a single region'],
+  };
+
+  return `# System Architecture: ${title}
+
+## Overview
+Mock response for: ${prompt.trim()}
+
+## Components
+- Web Client
+- API Gateway
+- Application Service
+- Primary Database
+
+## Technology Stack
+- Frontend: React, TypeScript
+- Backend: Node.js
+- Database: PostgreSQL
+
+## Deployment
+Containers on Kubernetes.
+
+\`\`\`mermaid
+${DIAGRAM}
+\`\`\`
+
+\`\`\`json
+${JSON.stringify(structured, null, 2)}
+\`\`\`
+`;
+};
+
+// Template fill: one placeholder at a time, answered with its content only
+const buildPlaceholder = (request) => {
+  const match = request.match(/^System description:\n([\s\S]*?)\n\nTemplate:\n[\s\S]*\n\nPlaceholder: (.+)$/);
+  if (!match) return '';
+  const [, prompt, placeholder] = match;
+  if (/name|title/i.test(placeholder)) return titleOf(prompt);
+  return `Mock ${placeholder.trim().replace(/[_-]+/g, ' ').toLowerCase()} for ${titleOf(prompt)}.`;
+};
+
+// Refinement: the previous answer with the instruction noted in the document,
+// keeping its diagram and summary blocks
+const buildRefinement = (messages, instruction) => {
+  const previous = [...messages].reverse().find((m) => m.role === 'assistant')?.content ?? '';
+  const fence = previous.search(/```(?:mermaid|json)/);
+  const document = (fence >= 0 ? previous.slice(0, fence) : previous).trim();
+  const blocks = fence >= 0 ? previous.slice(fence) : `\`\`\`mermaid\n${DIAGRAM}\n\`\`\``;
+  return `${document}\n\n## Revision Notes\n- ${instruction.trim()}\n\n${blocks}`;
+};
+
+// Section rewrite: the section's current content plus a note, without its heading
+const buildSectionRewrite = (request) => {
+  const match = request.match(/^System description:\n[\s\S]*?\n\nDocument:\n([\s\S]*)\n\nSection: (.+)\nInstruction: ([\s\S]*)$/);
+  if (!match) return '';
+  const [, document, heading, instruction] = match;
+  const lines = document.split('\n');
+  const start = lines.findIndex((line) => line.replace(/^#{1,6}\s+/, '').trim() === heading.trim());
+  const level = lines[start]?.match(/^#+/)?.[0].length ?? 6;
+  const end = lines.findIndex((line, index) => index > start && (line.match(/^(#{1,6})\s/)?.[1].length ?? 7) <= level);
+  const existing = start >= 0 ? lines.slice(start + 1, end >= 0 ? end : undefined).join('\n').trim() : '';
+  return `${existing}\n\n- Revised: ${instruction.trim()}`.trim();
+};
+
+// Answer according to the task the system prompt describes, like the
+// in-browser offline provider does
+const respond = (messages) => {
+  const system = messages.find((m) => m.role === 'system')?.content ?? '';
+  const user = [...messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
+  if (system.includes('filling in an architecture document template')) return buildPlaceholder(user);
+  if (system.includes('revising one section')) return buildSectionRewrite(user);
+  if (system.includes('You previously')) return buildRefinement(messages, user);
+  if (system.includes('respond with exactly one fenced')) return `\`\`\`mermaid\n${DIAGRAM}\n\`\`\``;
+  return buildAnswer(user);
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', (chunk) => (data += chunk));
+    req.on('end', () => resolve(data));
+    req.on('error', reject);
+  });
+
+const server = http.createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    try {
+      const body = JSON.parse(await readBody(req));
+      const content = respond(body.messages ?? []);
+
+      if (body.stream) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+        for (let i = 0; i < content.length; i += CHUNK_SIZE) {
+          const delta = content.slice(i, i + CHUNK_SIZE);
+          res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: delta } }] })}\n\n`);
+          await sleep(CHUNK_DELAY_MS);
+        }
+        res.end('data: [DONE]\n\n');
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: `mock-${Date.now()}`,
+        object: 'chat.completion',
+        model: body.model ?? 'mock',
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+      }));
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: String(error) } }));
+    }
+    return;
+  }
+
+  res.writeHead(404).end();
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock LLM server listening on http://localhost:${PORT}/v1`);
+});
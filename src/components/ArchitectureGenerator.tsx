@@ -1,29 +1,82 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, Sparkles, Plus, Download, FileText, Zap, Code2, RefreshCw } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Upload, Sparkles, Plus, Download, FileText, Zap, Code2, RefreshCw, Square, AlertTriangle } from "lucide-react";
 import { ExamplePrompts } from "./ExamplePrompts";
 import { TemplateUpload } from "./TemplateUpload";
 import { OutputViewer } from "./OutputViewer";
 import { PlantUMLEditor } from "./PlantUMLEditor";
+import { ModelSettings } from "./ModelSettings";
+import { RefinementPanel, RefinementTurn } from "./RefinementPanel";
+import { HistorySidebar } from "./HistorySidebar";
+import { CompareView } from "./CompareView";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { useToast } from "@/hooks/use-toast";
+import { useGenerationHistory } from "@/hooks/use-generation-history";
+import { HistoryEntry, defaultEntryName } from "@/lib/history";
+import {
+  GenerateOptions,
+  GenerationResult,
+  LLMProviderError,
+  ProviderSettings,
+  generateArchitecture,
+  generateFromTemplate,
+  keepLockedSections,
+  loadProviderSettings,
+  refineArchitecture,
+  regenerateSection,
+  saveProviderSettings,
+  withDiagram,
+} from "@/lib/llm";
+import { locateSections } from "@/lib/architecture";
+import { extractPlaceholders } from "@/lib/template";
 import heroImage from "@/assets/hero-architecture.jpg";
 
-interface GenerationResult {
-  document: string;
-  diagram: string;
-}
+const createTurn = (instruction: string, result: GenerationResult): RefinementTurn => ({
+  id: Date.now().toString(),
+  instruction,
+  result,
+  generatedDiagram: result.diagram,
+  createdAt: new Date().toISOString(),
+});
 
 export function ArchitectureGenerator() {
   const [prompt, setPrompt] = useState("");
   const [template, setTemplate] = useState<string | null>(null);
+  // The template the current result was filled from; follow-ups keep to it
+  // even if the template is changed or reset afterwards
+  const [resultTemplate, setResultTemplate] = useState<string | null>(null);
   const [isGenerating, setIsGenerating] = useState(false);
   const [result, setResult] = useState<GenerationResult | null>(null);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [emptyPlaceholders, setEmptyPlaceholders] = useState<string[]>([]);
+  const [turns, setTurns] = useState<RefinementTurn[]>([]);
+  const [activeTurnId, setActiveTurnId] = useState<string | null>(null);
+  const [isRefining, setIsRefining] = useState(false);
+  const [lockedSectionIds, setLockedSectionIds] = useState<string[]>([]);
+  const [regeneratingSectionId, setRegeneratingSectionId] = useState<string | null>(null);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const history = useGenerationHistory();
   const { toast } = useToast();
 
+  // History writes happen in the background; a failure should not undo the generation
+  const persistHistory = (write: Promise<unknown>) => {
+    write.catch((error) => {
+      console.error('Error saving generation history:', error);
+      toast({
+        title: "History Not Saved",
+        description: "The result is shown but could not be stored in the browser.",
+        variant: "destructive",
+      });
+    });
+  };
+
   const handleGenerate = async () => {
     if (!prompt.trim()) {
       toast({
@@ -34,56 +87,222 @@ export function ArchitectureGenerator() {
       return;
     }
 
+    // Locked sections survive regenerating the current document. A new prompt
+    // or template starts a fresh one, which the old locks do not belong to.
+    const isRegeneration = turns[0]?.instruction === prompt && resultTemplate === template;
+    const previous = isRegeneration ? result : null;
+    const withLocks = (next: GenerationResult) =>
+      previous ? keepLockedSections(previous, next, lockedSectionIds) : next;
+    if (!isRegeneration) setLockedSectionIds([]);
+
     setIsGenerating(true);
+    setResult(null);
+    setTurns([]);
+    setActiveTurnId(null);
+    setCurrentEntryId(null);
+    setEmptyPlaceholders([]);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     
     try {
-      // Mock API call - replace with actual backend integration
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      const mockResult: GenerationResult = {
-        document: `# System Architecture: ${prompt.split(' ').slice(0, 3).join(' ')}\n\n## Overview\nThis document describes the architecture for ${prompt}.\n\n## Components\n- Frontend Application\n- Backend API\n- Database Layer\n- Authentication Service\n\n## Technology Stack\n- Frontend: React, TypeScript\n- Backend: Node.js, Express\n- Database: PostgreSQL\n- Cache: Redis\n\n## Deployment\nThe system will be deployed using Docker containers orchestrated by Kubernetes.`,
-        diagram: `graph TB
-    A[User Interface] --> B[API Gateway]
-    B --> C[Authentication Service]
-    B --> D[Core Application Service]
-    D --> E[Database]
-    D --> F[Cache Layer]
-    G[Load Balancer] --> A
-    H[CDN] --> A
-    
-    subgraph "Frontend"
-        A
-        H
-    end
-    
-    subgraph "Backend Services"
-        B
-        C
-        D
-    end
-    
-    subgraph "Data Layer"
-        E
-        F
-    end`
-      };
+      let generated: GenerationResult;
+      let missing: string[] = [];
+      if (template) {
+        const filled = await generateFromTemplate(prompt, template, providerSettings, {
+          signal: controller.signal,
+          onPartial: partial => setResult(withLocks(partial)),
+          onProgress: (step, completed, total) => setProgress(`${step} (${completed + 1}/${total})`),
+        });
+        generated = filled.result;
+        missing = filled.emptyPlaceholders;
+      } else {
+        generated = await generateArchitecture(prompt, providerSettings, {
+          signal: controller.signal,
+          onPartial: partial => setResult(withLocks(partial)),
+        });
+      }
+      generated = withLocks(generated);
+
+      const firstTurn = createTurn(prompt, generated);
+      setResult(generated);
+      setResultTemplate(template);
+      setTurns([firstTurn]);
+      setActiveTurnId(firstTurn.id);
+      setEmptyPlaceholders(missing);
+      setCurrentEntryId(firstTurn.id);
+      persistHistory(history.save({
+        id: firstTurn.id,
+        name: defaultEntryName(generated, prompt),
+        prompt,
+        template,
+        provider: providerSettings.provider,
+        model: providerSettings.model,
+        createdAt: firstTurn.createdAt,
+        pinned: false,
+        result: generated,
+      }));
+
+      if (missing.length > 0) {
+        toast({
+          title: "Template Partially Filled",
+          description: `No content was generated for ${missing.map(p => `{{ ${p} }}`).join(', ')}.`,
+          variant: "destructive",
+        });
+        return;
+      }
 
-      setResult(mockResult);
       toast({
         title: "Architecture Generated!",
         description: "Your system architecture has been successfully generated.",
       });
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever streamed in before the user pressed Stop
+        toast({
+          title: "Generation Stopped",
+          description: "The partial result has been kept.",
+        });
+        return;
+      }
       toast({
         title: "Generation Failed",
-        description: "Failed to generate architecture. Please try again.",
+        description: error instanceof LLMProviderError
+          ? error.message
+          : "Failed to generate architecture. Please try again.",
         variant: "destructive",
       });
     } finally {
+      abortControllerRef.current = null;
+      setProgress(null);
       setIsGenerating(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Run a change against the active turn and record the outcome as a new turn.
+  // Locked sections are carried over from the active turn whatever the model returns.
+  const reviseActiveTurn = async (
+    label: string,
+    revise: (base: GenerationResult, options: GenerateOptions) => Promise<GenerationResult>
+  ) => {
+    const base = turns.find(turn => turn.id === activeTurnId);
+    if (!base) return;
+
+    setIsRefining(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const withLocks = (next: GenerationResult) => keepLockedSections(base.result, next, lockedSectionIds);
+
+    try {
+      const revised = withLocks(await revise(base.result, {
+        signal: controller.signal,
+        onPartial: partial => setResult(withLocks(partial)),
+      }));
+
+      const turn = createTurn(label, revised);
+      setResult(revised);
+      setTurns(previous => [...previous, turn]);
+      setActiveTurnId(turn.id);
+      if (currentEntryId) persistHistory(history.update(currentEntryId, { result: revised }));
+      toast({
+        title: "Architecture Updated",
+        description: "Your change has been applied.",
+      });
+    } catch (error) {
+      // A half-applied change is not useful, so go back to the version it started from
+      setResult(base.result);
+      if (controller.signal.aborted) {
+        toast({
+          title: "Refinement Stopped",
+          description: "The previous version has been restored.",
+        });
+        return;
+      }
+      toast({
+        title: "Refinement Failed",
+        description: error instanceof LLMProviderError
+          ? error.message
+          : "Failed to apply the change. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setIsRefining(false);
+    }
+  };
+
+  const handleRefine = (instruction: string) =>
+    reviseActiveTurn(instruction, (base, options) =>
+      refineArchitecture(turns[0].instruction, base, instruction, providerSettings, { ...options, template: resultTemplate })
+    );
+
+  const handleRegenerateSection = async (sectionId: string, instruction: string) => {
+    const heading = locateSections(result?.document ?? '').find(s => s.id === sectionId)?.heading ?? sectionId;
+    const label = `Regenerate "${heading}"${instruction ? `: ${instruction}` : ''}`;
+
+    setRegeneratingSectionId(sectionId);
+    await reviseActiveTurn(label, (base, options) =>
+      regenerateSection(turns[0].instruction, base, sectionId, instruction, providerSettings, options)
+    );
+    setRegeneratingSectionId(null);
+  };
+
+  const handleToggleSectionLock = (sectionId: string) => {
+    setLockedSectionIds(previous =>
+      previous.includes(sectionId) ? previous.filter(id => id !== sectionId) : [...previous, sectionId]
+    );
+  };
+
+  const handleSelectTurn = (id: string) => {
+    const turn = turns.find(t => t.id === id);
+    if (!turn) return;
+    setResult(turn.result);
+    setActiveTurnId(id);
+  };
+
+  // Manual diagram edits replace the active turn's result rather than adding a turn
+  const handleDiagramChange = (diagram: string) => {
+    if (!result || diagram === result.diagram) return;
+    const edited = withDiagram(result, diagram);
+    setResult(edited);
+    setTurns(previous => previous.map(turn => turn.id === activeTurnId ? { ...turn, result: edited } : turn));
+    if (currentEntryId) persistHistory(history.update(currentEntryId, { result: edited }));
+  };
+
+  const handleRestoreEntry = (entry: HistoryEntry) => {
+    const turn = createTurn(entry.prompt, entry.result);
+    setPrompt(entry.prompt);
+    setTemplate(entry.template);
+    setResultTemplate(entry.template);
+    setResult(entry.result);
+    setTurns([turn]);
+    setActiveTurnId(turn.id);
+    setCurrentEntryId(entry.id);
+    setLockedSectionIds([]);
+    setEmptyPlaceholders([]);
+    toast({
+      title: "Generation Restored",
+      description: `"${entry.name}" is now the current result.`,
+    });
+  };
+
+  const handleDeleteEntry = (id: string) => {
+    persistHistory(history.remove(id));
+    if (id === currentEntryId) setCurrentEntryId(null);
+    toast({
+      title: "Generation Deleted",
+      description: "The entry has been removed from history.",
+    });
+  };
+
+  const handleSettingsChange = (settings: ProviderSettings) => {
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+  };
+
   const handleExampleSelect = (examplePrompt: string) => {
     setPrompt(examplePrompt);
   };
@@ -99,6 +318,10 @@ export function ArchitectureGenerator() {
   const handleReset = () => {
     setTemplate(null);
     setResult(null);
+    setTurns([]);
+    setActiveTurnId(null);
+    setLockedSectionIds([]);
+    setEmptyPlaceholders([]);
     toast({
       title: "Template Reset",
       description: "Using default system template.",
@@ -106,167 +329,239 @@ export function ArchitectureGenerator() {
   };
 
   return (
-    <div className="min-h-screen bg-background p-6">
-      <div className="max-w-7xl mx-auto space-y-6">
-        {/* Hero Header */}
-        <div className="relative overflow-hidden rounded-2xl bg-card border border-border shadow-lg p-12 mb-8">
-          <div 
-            className="absolute inset-0 opacity-5 bg-cover bg-center"
-            style={{ backgroundImage: `url(${heroImage})` }}
-          />
-          <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-primary/3" />
-          <div className="relative z-10 text-center space-y-6">
-            <div className="flex items-center justify-center space-x-3">
-              <div className="p-3 rounded-xl bg-primary text-primary-foreground shadow-md">
-                <Zap className="h-10 w-10" />
+    <SidebarProvider defaultOpen={false}>
+      <HistorySidebar
+        entries={history.entries}
+        isLoading={history.isLoading}
+        activeEntryId={currentEntryId}
+        onRestore={handleRestoreEntry}
+        onRename={(id, name) => persistHistory(history.update(id, { name }))}
+        onTogglePin={(entry) => persistHistory(history.update(entry.id, { pinned: !entry.pinned }))}
+        onDelete={handleDeleteEntry}
+      />
+      <SidebarInset>
+        <div className="min-h-screen bg-background p-6">
+          <div className="max-w-7xl mx-auto space-y-6">
+            {/* Hero Header */}
+            <div className="relative overflow-hidden rounded-2xl bg-card border border-border shadow-lg p-12 mb-8">
+              <div 
+                className="absolute inset-0 opacity-5 bg-cover bg-center"
+                style={{ backgroundImage: `url(${heroImage})` }}
+              />
+              <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-transparent to-primary/3" />
+              <div className="relative z-10 text-center space-y-6">
+                <div className="flex items-center justify-center space-x-3">
+                  <div className="p-3 rounded-xl bg-primary text-primary-foreground shadow-md">
+                    <Zap className="h-10 w-10" />
+                  </div>
+                  <h1 className="text-5xl font-bold text-foreground">
+                    AI Architecture Generator
+                  </h1>
+                </div>
+                <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
+                  Transform your ideas into comprehensive system architecture documents and visual diagrams. 
+                  Powered by AI to help you design, document, and visualize complex systems effortlessly.
+                </p>
+                <div className="flex items-center justify-center space-x-4 pt-4">
+                  <Badge variant="secondary" className="px-4 py-2">
+                    ⚡ AI-Powered
+                  </Badge>
+                  <Badge variant="secondary" className="px-4 py-2">
+                    📊 Visual Diagrams
+                  </Badge>
+                  <Badge variant="secondary" className="px-4 py-2">
+                    📝 Documentation
+                  </Badge>
+                </div>
               </div>
-              <h1 className="text-5xl font-bold text-foreground">
-                AI Architecture Generator
-              </h1>
             </div>
-            <p className="text-xl text-muted-foreground max-w-3xl mx-auto leading-relaxed">
-              Transform your ideas into comprehensive system architecture documents and visual diagrams. 
-              Powered by AI to help you design, document, and visualize complex systems effortlessly.
-            </p>
-            <div className="flex items-center justify-center space-x-4 pt-4">
-              <Badge variant="secondary" className="px-4 py-2">
-                ⚡ AI-Powered
-              </Badge>
-              <Badge variant="secondary" className="px-4 py-2">
-                📊 Visual Diagrams
-              </Badge>
-              <Badge variant="secondary" className="px-4 py-2">
-                📝 Documentation
-              </Badge>
-            </div>
-          </div>
-        </div>
 
-        {/* Main Content with Tabs */}
-        <Tabs defaultValue="ai-generator" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
-            <TabsTrigger value="ai-generator">AI Architecture Generator</TabsTrigger>
-            <TabsTrigger value="plantuml-editor">PlantUML Editor</TabsTrigger>
-          </TabsList>
+            {/* Main Content with Tabs */}
+            <Tabs defaultValue="ai-generator" className="space-y-6">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="ai-generator">AI Architecture Generator</TabsTrigger>
+                <TabsTrigger value="plantuml-editor">PlantUML Editor</TabsTrigger>
+              </TabsList>
           
-          <TabsContent value="ai-generator" className="space-y-6">
-            {/* Control Panel */}
-            <Card className="shadow-sm">
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle className="flex items-center space-x-2">
-                      <Sparkles className="h-5 w-5 text-primary" />
-                      <span>Generation Controls</span>
-                    </CardTitle>
-                    <CardDescription>
-                      Manage examples, templates, and generation settings
-                    </CardDescription>
-                  </div>
-                  <div className="flex space-x-2">
-                    <TemplateUpload onTemplateUpload={handleTemplateUpload} />
+              <TabsContent value="ai-generator" className="space-y-6">
+                {/* Control Panel */}
+                <Card className="shadow-sm">
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle className="flex items-center space-x-2">
+                          <Sparkles className="h-5 w-5 text-primary" />
+                          <span>Generation Controls</span>
+                        </CardTitle>
+                        <CardDescription>
+                          Manage examples, templates, and generation settings
+                        </CardDescription>
+                      </div>
+                      <div className="flex space-x-2">
+                        <SidebarTrigger className="h-9 w-9 border border-input" title="Generation history" />
+                        <ModelSettings settings={providerSettings} onSettingsChange={handleSettingsChange} />
+                        <TemplateUpload onTemplateUpload={handleTemplateUpload} />
+                        <CompareView entries={history.entries} />
+                        {template && (
+                          <Button variant="outline" size="sm" onClick={handleReset}>
+                            <RefreshCw className="h-4 w-4" />
+                            Reset Template
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
                     {template && (
-                      <Button variant="outline" size="sm" onClick={handleReset}>
-                        <RefreshCw className="h-4 w-4" />
-                        Reset Template
-                      </Button>
+                      <div className="p-3 bg-accent rounded-lg border">
+                        <div className="flex items-center space-x-2">
+                          <FileText className="h-4 w-4 text-primary" />
+                          <span className="text-sm font-medium">Custom Template Active</span>
+                          <Badge variant="secondary">Custom</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {extractPlaceholders(template).length} placeholders will be filled one section at a time.
+                        </p>
+                      </div>
                     )}
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {template && (
-                  <div className="p-3 bg-accent rounded-lg border">
-                    <div className="flex items-center space-x-2">
-                      <FileText className="h-4 w-4 text-primary" />
-                      <span className="text-sm font-medium">Custom Template Active</span>
-                      <Badge variant="secondary">Custom</Badge>
-                    </div>
-                  </div>
-                )}
                 
-                <ExamplePrompts onExampleSelect={handleExampleSelect} />
-              </CardContent>
-            </Card>
+                    <ExamplePrompts onExampleSelect={handleExampleSelect} />
+                  </CardContent>
+                </Card>
 
-            {/* Main Generator */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Input Panel */}
-              <Card className="shadow-sm">
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2">
-                    <Plus className="h-5 w-5" />
-                    <span>Prompt Input</span>
-                  </CardTitle>
-                  <CardDescription>
-                    Describe your system architecture requirements
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <Textarea
-                    placeholder="Describe your system architecture... e.g., 'E-commerce platform with microservices, real-time notifications, and machine learning recommendations'"
-                    value={prompt}
-                    onChange={(e) => setPrompt(e.target.value)}
-                    className="min-h-[200px] resize-none bg-muted/30 border-border/50 focus:border-primary/50 transition-all"
-                  />
-                  <Button 
-                    onClick={handleGenerate} 
-                    disabled={isGenerating || !prompt.trim()}
-                    className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-semibold"
-                    size="lg"
-                  >
-                    {isGenerating ? (
-                      <>
-                        <RefreshCw className="h-4 w-4 animate-spin" />
-                        Generating Architecture...
-                      </>
-                    ) : (
-                      <>
-                        <Sparkles className="h-4 w-4" />
-                        Generate Architecture
-                      </>
+                {/* Main Generator */}
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Input Panel */}
+                  <div className="space-y-6">
+                    <Card className="shadow-sm">
+                      <CardHeader>
+                        <CardTitle className="flex items-center space-x-2">
+                          <Plus className="h-5 w-5" />
+                          <span>Prompt Input</span>
+                        </CardTitle>
+                        <CardDescription>
+                          Describe your system architecture requirements
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <Textarea
+                          placeholder="Describe your system architecture... e.g., 'E-commerce platform with microservices, real-time notifications, and machine learning recommendations'"
+                          value={prompt}
+                          onChange={(e) => setPrompt(e.target.value)}
+                          className="min-h-[200px] resize-none bg-muted/30 border-border/50 focus:border-primary/50 transition-all"
+                        />
+                        {isGenerating ? (
+                          <div className="flex gap-2">
+                            <Button
+                              disabled
+                              className="flex-1 bg-primary text-primary-foreground font-semibold"
+                              size="lg"
+                            >
+                              <RefreshCw className="h-4 w-4 animate-spin" />
+                              {progress ?? 'Generating Architecture...'}
+                            </Button>
+                            <Button variant="outline" size="lg" onClick={handleStop}>
+                              <Square className="h-4 w-4" />
+                              Stop
+                            </Button>
+                          </div>
+                        ) : (
+                          <Button 
+                            onClick={handleGenerate} 
+                            disabled={isRefining || !prompt.trim()}
+                            className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-semibold"
+                            size="lg"
+                          >
+                            <Sparkles className="h-4 w-4" />
+                            Generate Architecture
+                          </Button>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    {turns.length > 0 && (
+                      <RefinementPanel
+                        turns={turns}
+                        activeTurnId={activeTurnId}
+                        isRefining={isRefining}
+                        onRefine={handleRefine}
+                        onSelectTurn={handleSelectTurn}
+                        onStop={handleStop}
+                      />
                     )}
-                  </Button>
-                </CardContent>
-              </Card>
+                  </div>
 
-              {/* Output Panel */}
-              <Card className="shadow-sm">
-                <CardHeader>
-                  <CardTitle className="flex items-center space-x-2">
-                    <FileText className="h-5 w-5" />
-                    <span>Generated Output</span>
-                  </CardTitle>
-                  <CardDescription>
-                    Architecture documentation and diagrams
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  {result ? (
-                    <OutputViewer result={result} />
-                  ) : (
-                    <div className="flex flex-col items-center justify-center h-[400px] text-center space-y-4">
-                      <Zap className="h-16 w-16 text-muted-foreground/50" />
-                      <div>
-                        <p className="text-lg font-medium text-muted-foreground">
-                          No output generated yet
-                        </p>
-                        <p className="text-sm text-muted-foreground/70">
-                          Enter a prompt and click generate to see results
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            </div>
-          </TabsContent>
+                  {/* Output Panel */}
+                  <Card className="shadow-sm">
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <FileText className="h-5 w-5" />
+                        <span>Generated Output</span>
+                      </CardTitle>
+                      <CardDescription>
+                        Architecture documentation and diagrams
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      {emptyPlaceholders.length > 0 && (
+                        <Alert variant="destructive" className="mb-4">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>
+                            The model returned no content for{' '}
+                            {emptyPlaceholders.map(p => `{{ ${p} }}`).join(', ')}. These placeholders were left unfilled.
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {!isGenerating && result?.issues && result.issues.length > 0 && (
+                        <Alert className="mb-4">
+                          <AlertTriangle className="h-4 w-4" />
+                          <AlertDescription>
+                            <p className="mb-1">Some of the model's structured output was invalid and has been left out:</p>
+                            <ul className="list-disc ml-4 font-mono text-xs space-y-0.5">
+                              {result.issues.map((issue, index) => (
+                                <li key={index}>{issue}</li>
+                              ))}
+                            </ul>
+                          </AlertDescription>
+                        </Alert>
+                      )}
+                      {result ? (
+                        <OutputViewer
+                          result={result}
+                          version={Math.max(turns.findIndex(turn => turn.id === activeTurnId), 0) + 1}
+                          isStreaming={isGenerating || isRefining}
+                          lockedSectionIds={lockedSectionIds}
+                          regeneratingSectionId={regeneratingSectionId}
+                          onToggleSectionLock={turns.length > 0 ? handleToggleSectionLock : undefined}
+                          onRegenerateSection={turns.length > 0 ? handleRegenerateSection : undefined}
+                          generatedDiagram={turns.find(turn => turn.id === activeTurnId)?.generatedDiagram}
+                          onDiagramChange={turns.length > 0 ? handleDiagramChange : undefined}
+                        />
+                      ) : (
+                        <div className="flex flex-col items-center justify-center h-[400px] text-center space-y-4">
+                          <Zap className="h-16 w-16 text-muted-foreground/50" />
+                          <div>
+                            <p className="text-lg font-medium text-muted-foreground">
+                              No output generated yet
+                            </p>
+                            <p className="text-sm text-muted-foreground/70">
+                              Enter a prompt and click generate to see results
+                            </p>
+                          </div>
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                </div>
+              </TabsContent>
           
-          <TabsContent value="plantuml-editor">
-            <PlantUMLEditor />
-          </TabsContent>
-        </Tabs>
-      </div>
-    </div>
+              <TabsContent value="plantuml-editor">
+                <PlantUMLEditor />
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { Compartment, EditorSelection, EditorState } from '@codemirror/state';
+import {
+  EditorView,
+  crosshairCursor,
+  drawSelection,
+  dropCursor,
+  highlightActiveLine,
+  highlightActiveLineGutter,
+  highlightSpecialChars,
+  keymap,
+  lineNumbers,
+  placeholder as placeholderExtension,
+  rectangularSelection,
+} from '@codemirror/view';
+import { defaultKeymap, history, historyKeymap, indentWithTab } from '@codemirror/commands';
+import {
+  bracketMatching,
+  defaultHighlightStyle,
+  foldGutter,
+  foldKeymap,
+  indentOnInput,
+  syntaxHighlighting,
+} from '@codemirror/language';
+import { closeBrackets, closeBracketsKeymap, completionKeymap } from '@codemirror/autocomplete';
+import { highlightSelectionMatches, search, searchKeymap } from '@codemirror/search';
+import { EditorLanguage, errorLineField, languageSupport, setErrorLine } from "@/lib/editor";
+
+interface CodeEditorProps {
+  value: string;
+  language: EditorLanguage;
+  onChange?: (value: string) => void;
+  // 1-based line to mark as failing
+  errorLine?: number;
+  readOnly?: boolean;
+  placeholder?: string;
+  className?: string;
+}
+
+export interface CodeEditorHandle {
+  focusLine: (line: number) => void;
+}
+
+const editorTheme = EditorView.theme({
+  '&': {
+    fontSize: '0.875rem',
+    backgroundColor: 'hsl(var(--background))',
+    color: 'hsl(var(--foreground))',
+  },
+  '&.cm-focused': { outline: 'none' },
+  '.cm-scroller': { fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace', lineHeight: '1.5rem' },
+  '.cm-gutters': {
+    backgroundColor: 'hsl(var(--muted) / 0.3)',
+    color: 'hsl(var(--muted-foreground))',
+    borderRight: '1px solid hsl(var(--border))',
+  },
+  '.cm-activeLine': { backgroundColor: 'hsl(var(--accent) / 0.5)' },
+  '.cm-activeLineGutter': { backgroundColor: 'hsl(var(--accent))' },
+  '.cm-error-line': {
+    backgroundColor: 'hsl(var(--destructive) / 0.15)',
+    boxShadow: 'inset 2px 0 0 hsl(var(--destructive))',
+  },
+  '.cm-panels': { backgroundColor: 'hsl(var(--muted))', color: 'hsl(var(--foreground))' },
+  '.cm-tooltip-autocomplete': { backgroundColor: 'hsl(var(--popover))', border: '1px solid hsl(var(--border))' },
+});
+
+export const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(function CodeEditor(
+  { value, language, onChange, errorLine, readOnly = false, placeholder, className = '' },
+  ref
+) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const onChangeRef = useRef(onChange);
+  const languageCompartment = useRef(new Compartment());
+  const readOnlyCompartment = useRef(new Compartment());
+  // The view is created once from the first props; the effects below apply
+  // later changes
+  const initialPropsRef = useRef({ value, language, readOnly, placeholder });
+  onChangeRef.current = onChange;
+
+  useEffect(() => {
+    const { value, language, readOnly, placeholder } = initialPropsRef.current;
+    const view = new EditorView({
+      parent: containerRef.current!,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          lineNumbers(),
+          highlightActiveLineGutter(),
+          highlightSpecialChars(),
+          history(),
+          foldGutter(),
+          drawSelection(),
+          dropCursor(),
+          EditorState.allowMultipleSelections.of(true),
+          indentOnInput(),
+          syntaxHighlighting(defaultHighlightStyle, { fallback: true }),
+          bracketMatching(),
+          closeBrackets(),
+          rectangularSelection(),
+          crosshairCursor(),
+          highlightActiveLine(),
+          highlightSelectionMatches(),
+          search({ top: true }),
+          keymap.of([
+            ...closeBracketsKeymap,
+            ...defaultKeymap,
+            ...searchKeymap,
+            ...historyKeymap,
+            ...foldKeymap,
+            ...completionKeymap,
+            indentWithTab,
+          ]),
+          errorLineField,
+          editorTheme,
+          placeholder ? placeholderExtension(placeholder) : [],
+          languageCompartment.current.of(languageSupport(language)),
+          readOnlyCompartment.current.of(EditorState.readOnly.of(readOnly)),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) onChangeRef.current?.(update.state.doc.toString());
+          }),
+        ],
+      }),
+    });
+    viewRef.current = view;
+    return () => view.destroy();
+  }, []);
+
+  // Replace the document only when it changed outside the editor
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== value) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+    }
+  }, [value]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: languageCompartment.current.reconfigure(languageSupport(language)) });
+  }, [language]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: readOnlyCompartment.current.reconfigure(EditorState.readOnly.of(readOnly)) });
+  }, [readOnly]);
+
+  useEffect(() => {
+    viewRef.current?.dispatch({ effects: setErrorLine.of(errorLine ?? null) });
+  }, [errorLine, value]);
+
+  useImperativeHandle(ref, () => ({
+    focusLine: (line: number) => {
+      const view = viewRef.current;
+      if (!view || line < 1 || line > view.state.doc.lines) return;
+      const target = view.state.doc.line(line);
+      view.dispatch({
+        selection: EditorSelection.range(target.from, target.to),
+        effects: EditorView.scrollIntoView(target.from, { y: 'center' }),
+      });
+      view.focus();
+    },
+  }), []);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`border border-input rounded-md overflow-hidden [&_.cm-editor]:h-full ${className}`}
+    />
+  );
+});
@@ -0,0 +1,209 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { GitCompare } from "lucide-react";
+import { SideBySideDiff } from "./SideBySideDiff";
+import { HistoryEntry } from "@/lib/history";
+import { SectionChange, diffLines, diffSections, toSideBySide } from "@/lib/diff";
+import { GraphEdge, diffGraphs, highlightGraphElements, parseFlowchart } from "@/lib/mermaid-graph";
+import { MERMAID_ERROR_HTML, renderMermaid } from "@/lib/mermaid";
+
+interface CompareViewProps {
+  entries: HistoryEntry[];
+}
+
+const HIGHLIGHT = {
+  removed: 'hsl(0, 84%, 60%)',
+  added: 'hsl(142, 71%, 45%)',
+  relabeled: 'hsl(38, 92%, 50%)',
+};
+
+const sectionBadgeClass: Record<SectionChange, string> = {
+  added: 'border-green-500/50 text-green-500',
+  removed: 'border-red-500/50 text-red-500',
+  modified: 'border-amber-500/50 text-amber-500',
+  unchanged: 'text-muted-foreground',
+};
+
+const formatEdge = (edge: GraphEdge) => `${edge.from} → ${edge.to}${edge.label ? ` (${edge.label})` : ''}`;
+
+interface DiagramPaneProps {
+  source: string;
+  highlights: { color: string; nodes: string[]; edges: GraphEdge[] }[];
+}
+
+function DiagramPane({ source, highlights }: DiagramPaneProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const render = async () => {
+      if (!containerRef.current) return;
+      try {
+        const svg = await renderMermaid(source);
+        if (cancelled || !containerRef.current) return;
+        containerRef.current.innerHTML = svg;
+        highlights.forEach(({ color, nodes, edges }) =>
+          highlightGraphElements(containerRef.current!, { nodes, edges }, color)
+        );
+      } catch (error) {
+        console.error('Mermaid rendering error:', error);
+        if (!cancelled && containerRef.current) {
+          containerRef.current.innerHTML = MERMAID_ERROR_HTML;
+        }
+      }
+    };
+
+    render();
+    return () => {
+      cancelled = true;
+    };
+  }, [source, highlights]);
+
+  return <div ref={containerRef} className="flex justify-center p-4 bg-muted/30 rounded-lg min-h-[200px] overflow-auto" />;
+}
+
+export function CompareView({ entries }: CompareViewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [leftId, setLeftId] = useState<string | null>(null);
+  const [rightId, setRightId] = useState<string | null>(null);
+
+  // Default to the previous generation on the left and the latest on the right
+  const byDate = useMemo(
+    () => [...entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [entries]
+  );
+  const left = entries.find(entry => entry.id === leftId) ?? byDate[1];
+  const right = entries.find(entry => entry.id === rightId) ?? byDate[0];
+
+  const documentRows = useMemo(
+    () => (left && right ? toSideBySide(diffLines(left.result.document, right.result.document)) : []),
+    [left, right]
+  );
+  const sections = useMemo(
+    () => (left && right ? diffSections(left.result.document, right.result.document) : []),
+    [left, right]
+  );
+  const graphDiff = useMemo(
+    () => (left && right ? diffGraphs(parseFlowchart(left.result.diagram), parseFlowchart(right.result.diagram)) : null),
+    [left, right]
+  );
+
+  const leftHighlights = useMemo(
+    () => graphDiff ? [{
+      color: HIGHLIGHT.removed,
+      nodes: graphDiff.removedNodes.map(node => node.id),
+      edges: graphDiff.removedEdges,
+    }] : [],
+    [graphDiff]
+  );
+  const rightHighlights = useMemo(
+    () => graphDiff ? [
+      { color: HIGHLIGHT.added, nodes: graphDiff.addedNodes.map(node => node.id), edges: graphDiff.addedEdges },
+      { color: HIGHLIGHT.relabeled, nodes: graphDiff.relabeledNodes.map(node => node.id), edges: [] },
+    ] : [],
+    [graphDiff]
+  );
+
+  const renderEntrySelect = (value: HistoryEntry | undefined, onChange: (id: string) => void) => (
+    <Select value={value?.id} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a generation" />
+      </SelectTrigger>
+      <SelectContent>
+        {byDate.map(entry => (
+          <SelectItem key={entry.id} value={entry.id}>
+            {entry.name} · {new Date(entry.createdAt).toLocaleString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const hasGraphChanges = graphDiff && (
+    graphDiff.addedNodes.length + graphDiff.removedNodes.length + graphDiff.relabeledNodes.length +
+    graphDiff.addedEdges.length + graphDiff.removedEdges.length > 0
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={entries.length < 2}>
+          <GitCompare className="h-4 w-4" />
+          Compare
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Generations</DialogTitle>
+          <DialogDescription>
+            See what changed between two entries in your history
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          {renderEntrySelect(left, setLeftId)}
+          {renderEntrySelect(right, setRightId)}
+        </div>
+
+        {left && right && (
+          <Tabs defaultValue="document">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="document">Document</TabsTrigger>
+              <TabsTrigger value="diagram">Diagram</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="document" className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {sections.map(section => (
+                  <Badge key={`${section.change}-${section.id}`} variant="outline" className={sectionBadgeClass[section.change]}>
+                    {section.heading} · {section.change}
+                  </Badge>
+                ))}
+              </div>
+              <SideBySideDiff rows={documentRows} className="max-h-[60vh]" />
+            </TabsContent>
+
+            <TabsContent value="diagram" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <DiagramPane source={left.result.diagram} highlights={leftHighlights} />
+                <DiagramPane source={right.result.diagram} highlights={rightHighlights} />
+              </div>
+              {graphDiff && hasGraphChanges ? (
+                <div className="grid grid-cols-2 gap-4 text-sm">
+                  <ul className="space-y-1">
+                    {graphDiff.removedNodes.map(node => (
+                      <li key={node.id} className="text-red-500">− {node.label}</li>
+                    ))}
+                    {graphDiff.removedEdges.map((edge, index) => (
+                      <li key={`edge-${index}`} className="text-red-500">− {formatEdge(edge)}</li>
+                    ))}
+                  </ul>
+                  <ul className="space-y-1">
+                    {graphDiff.addedNodes.map(node => (
+                      <li key={node.id} className="text-green-500">+ {node.label}</li>
+                    ))}
+                    {graphDiff.addedEdges.map((edge, index) => (
+                      <li key={`edge-${index}`} className="text-green-500">+ {formatEdge(edge)}</li>
+                    ))}
+                    {graphDiff.relabeledNodes.map(node => (
+                      <li key={node.id} className="text-amber-500">~ {node.before} → {node.after}</li>
+                    ))}
+                  </ul>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center">
+                  No structural differences between the flowcharts
+                </p>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ClipboardCopy, FileImage, Image as ImageIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { IMAGE_SCALES, ImageScale, copyImageToClipboard, diagramPngBlob, diagramSvgBlob, downloadBlob } from "@/lib/export";
+
+interface DiagramExportMenuProps {
+  // Produces the diagram to export; undefined when there is nothing to export
+  getSvg: () => Promise<SVGSVGElement | undefined>;
+  // File name without extension
+  filename: string;
+  disabled?: boolean;
+}
+
+export function DiagramExportMenu({ getSvg, filename, disabled = false }: DiagramExportMenuProps) {
+  const [background, setBackground] = useState<'themed' | 'transparent'>('themed');
+  const { toast } = useToast();
+  const options = { transparent: background === 'transparent' };
+
+  const renderedSvg = async () => {
+    const svg = await getSvg();
+    if (!svg) throw new Error('The diagram could not be rendered');
+    return svg;
+  };
+
+  const reportFailure = (error: unknown, failure: string) => {
+    console.error('Diagram image export error:', error);
+    toast({
+      title: "Export Failed",
+      description: `${failure} ${(error as Error).message}.`,
+      variant: "destructive",
+    });
+  };
+
+  const withSvg = async (action: (svg: SVGSVGElement) => Promise<void>, failure: string) => {
+    try {
+      await action(await renderedSvg());
+    } catch (error) {
+      reportFailure(error, failure);
+    }
+  };
+
+  const handleExportSvg = () =>
+    withSvg(async svg => {
+      downloadBlob(diagramSvgBlob(svg, options), `${filename}.svg`);
+      toast({
+        title: "SVG Downloaded",
+        description: `${filename}.svg has been downloaded.`,
+      });
+    }, "Failed to export the diagram as SVG.");
+
+  const handleExportPng = (scale: ImageScale) =>
+    withSvg(async svg => {
+      downloadBlob(await diagramPngBlob(svg, scale, options), `${filename}@${scale}x.png`);
+      toast({
+        title: "PNG Downloaded",
+        description: `${filename}@${scale}x.png has been downloaded.`,
+      });
+    }, "Failed to export the diagram as PNG.");
+
+  const handleCopyImage = async () => {
+    try {
+      await copyImageToClipboard(renderedSvg().then(svg => diagramPngBlob(svg, 2, options)));
+      toast({
+        title: "Copied!",
+        description: "Diagram image copied to clipboard.",
+      });
+    } catch (error) {
+      reportFailure(error, "Failed to copy the diagram image.");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <ImageIcon className="h-4 w-4" />
+          Export Image
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground">Background</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={background} onValueChange={value => setBackground(value as typeof background)}>
+          {/* Keep the menu open so the export can follow */}
+          <DropdownMenuRadioItem value="themed" onSelect={event => event.preventDefault()}>
+            Themed
+          </DropdownMenuRadioItem>
+          <DropdownMenuRadioItem value="transparent" onSelect={event => event.preventDefault()}>
+            Transparent
+          </DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleExportSvg}>
+          <FileImage className="h-4 w-4 mr-2" />
+          Export SVG
+        </DropdownMenuItem>
+        {IMAGE_SCALES.map(scale => (
+          <DropdownMenuItem key={scale} onClick={() => handleExportPng(scale)}>
+            <ImageIcon className="h-4 w-4 mr-2" />
+            Export PNG ({scale}x)
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleCopyImage}>
+          <ClipboardCopy className="h-4 w-4 mr-2" />
+          Copy Image
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
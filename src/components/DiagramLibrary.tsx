@@ -0,0 +1,286 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BookMarked, Folder, FolderInput, Search, Tag, Trash2, X } from "lucide-react";
+import { DiagramRevisions } from "./DiagramRevisions";
+import { Diagram } from "@/lib/diagrams";
+import {
+  ALL_FOLDERS,
+  DiagramSort,
+  SORT_OPTIONS,
+  UNFILED,
+  filterDiagrams,
+  highlightSegments,
+  listFolders,
+  listTags,
+  normalizeTags,
+  searchTerms,
+} from "@/lib/diagram-search";
+
+interface DiagramLibraryProps {
+  diagrams: Diagram[];
+  currentDiagramId: string | null;
+  onLoad: (diagram: Diagram) => void;
+  onDelete: (id: string) => void;
+  onRestore: (diagram: Diagram, revisionId: string) => void;
+  onOrganize: (diagram: Diagram, folder: string | undefined, tags: string[]) => void;
+  onIncludableChange: (diagram: Diagram, includable: boolean) => void;
+}
+
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-300/60 text-foreground rounded-sm">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
+
+interface DiagramOrganizerProps {
+  diagram: Diagram;
+  folders: string[];
+  onSave: (folder: string | undefined, tags: string[]) => void;
+}
+
+function DiagramOrganizer({ diagram, folders, onSave }: DiagramOrganizerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [folder, setFolder] = useState('');
+  const [tags, setTags] = useState('');
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setFolder(diagram.folder ?? '');
+      setTags(diagram.tags.join(', '));
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = () => {
+    onSave(folder.trim() || undefined, normalizeTags(tags.split(',')));
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" title="Folder and tags">
+          <FolderInput className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <p className="text-sm font-medium">Organize "{diagram.name}"</p>
+        <div className="space-y-1">
+          <label htmlFor={`folder-${diagram.id}`} className="text-xs text-muted-foreground">Folder</label>
+          <Input
+            id={`folder-${diagram.id}`}
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            placeholder="Unfiled"
+            list={`folders-${diagram.id}`}
+          />
+          <datalist id={`folders-${diagram.id}`}>
+            {folders.map(name => <option key={name} value={name} />)}
+          </datalist>
+        </div>
+        <div className="space-y-1">
+          <label htmlFor={`tags-${diagram.id}`} className="text-xs text-muted-foreground">Tags, separated by commas</label>
+          <Input
+            id={`tags-${diagram.id}`}
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="sequence, payments"
+          />
+        </div>
+        <Button size="sm" className="w-full" onClick={handleSave}>
+          Save
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function DiagramLibrary({
+  diagrams,
+  currentDiagramId,
+  onLoad,
+  onDelete,
+  onRestore,
+  onOrganize,
+  onIncludableChange,
+}: DiagramLibraryProps) {
+  const [query, setQuery] = useState('');
+  const [folder, setFolder] = useState(ALL_FOLDERS);
+  const [tags, setTags] = useState<string[]>([]);
+  const [sort, setSort] = useState<DiagramSort>('updated');
+
+  const folders = useMemo(() => listFolders(diagrams), [diagrams]);
+  const allTags = useMemo(() => listTags(diagrams), [diagrams]);
+  const terms = searchTerms(query);
+  const matches = useMemo(
+    () => filterDiagrams(diagrams, { query, folder, tags, sort }),
+    [diagrams, query, folder, tags, sort]
+  );
+
+  const toggleTag = (tag: string) =>
+    setTags(previous => previous.includes(tag) ? previous.filter(t => t !== tag) : [...previous, tag]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search names and PlantUML source..."
+            className="pl-8"
+          />
+        </div>
+        <Select value={folder} onValueChange={setFolder}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_FOLDERS}>All folders</SelectItem>
+            <SelectItem value={UNFILED}>Unfiled</SelectItem>
+            {folders.map(name => (
+              <SelectItem key={name} value={name}>{name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={sort} onValueChange={(value) => setSort(value as DiagramSort)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SORT_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {allTags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <Tag className="h-3.5 w-3.5 text-muted-foreground" />
+          {allTags.map(tag => (
+            <Badge
+              key={tag}
+              variant={tags.includes(tag) ? 'default' : 'outline'}
+              className="cursor-pointer text-xs"
+              onClick={() => toggleTag(tag)}
+            >
+              {tag}
+            </Badge>
+          ))}
+          {tags.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setTags([])}>
+              <X className="h-3 w-3" />
+              Clear
+            </Button>
+          )}
+        </div>
+      )}
+
+      {matches.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No saved diagrams match the current search and filters
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {matches.map(({ diagram, hits }) => (
+            <div
+              key={diagram.id}
+              className={`p-3 border rounded-lg ${diagram.id === currentDiagramId ? 'border-primary' : 'border-border'}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <h4 className="font-medium truncate">
+                  <Highlighted text={diagram.name} terms={terms} />
+                </h4>
+                <div className="flex">
+                  <Button
+                    onClick={() => onIncludableChange(diagram, !diagram.includable)}
+                    variant="ghost"
+                    size="sm"
+                    title={diagram.includable ? 'Stop offering as an include library' : 'Offer as an include library'}
+                    className={diagram.includable ? 'text-primary' : undefined}
+                  >
+                    <BookMarked className="h-4 w-4" />
+                  </Button>
+                  <DiagramOrganizer
+                    diagram={diagram}
+                    folders={folders}
+                    onSave={(newFolder, newTags) => onOrganize(diagram, newFolder, newTags)}
+                  />
+                  <DiagramRevisions
+                    diagram={diagram}
+                    onRestore={(revisionId) => onRestore(diagram, revisionId)}
+                  />
+                  <Button
+                    onClick={() => onDelete(diagram.id)}
+                    variant="ghost"
+                    size="sm"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mb-2">
+                Updated {new Date(diagram.updatedAt).toLocaleDateString()} · {diagram.revisions.length}{' '}
+                {diagram.revisions.length === 1 ? 'revision' : 'revisions'}
+              </p>
+              {diagram.includable && (
+                <p className="mb-2 font-mono text-xs text-primary truncate">
+                  !include &lt;{diagram.name}&gt;
+                </p>
+              )}
+              {(diagram.folder || diagram.tags.length > 0) && (
+                <div className="flex flex-wrap items-center gap-1 mb-2">
+                  {diagram.folder && (
+                    <span className="flex items-center gap-1 text-xs text-muted-foreground mr-1">
+                      <Folder className="h-3 w-3" />
+                      {diagram.folder}
+                    </span>
+                  )}
+                  {diagram.tags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="text-xs">
+                      <Highlighted text={tag} terms={terms} />
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {hits.length > 0 && (
+                <div className="mb-3 rounded bg-muted/40 p-2 font-mono text-xs space-y-0.5">
+                  {hits.map(hit => (
+                    <div key={hit.line} className="flex gap-2 min-w-0">
+                      <span className="text-muted-foreground shrink-0 w-6 text-right">{hit.line}</span>
+                      <span className="truncate">
+                        <Highlighted text={hit.text.trim()} terms={terms} />
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <Button
+                onClick={() => onLoad(diagram)}
+                variant="outline"
+                size="sm"
+                className="w-full"
+              >
+                Load
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
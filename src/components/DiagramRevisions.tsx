@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { History, RotateCcw } from "lucide-react";
+import { SideBySideDiff } from "./SideBySideDiff";
+import { Diagram, DiagramRevision } from "@/lib/diagrams";
+import { diffLines, toSideBySide } from "@/lib/diff";
+
+interface DiagramRevisionsProps {
+  diagram: Diagram;
+  onRestore: (revisionId: string) => void;
+}
+
+const formatRevision = (revision: DiagramRevision) => new Date(revision.createdAt).toLocaleString();
+
+export function DiagramRevisions({ diagram, onRestore }: DiagramRevisionsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+
+  // Newest first; by default compare the latest save with the one before it
+  const newestFirst = useMemo(() => [...diagram.revisions].reverse(), [diagram.revisions]);
+  const latest = newestFirst[0];
+  const from = newestFirst.find(revision => revision.id === fromId) ?? newestFirst[1];
+  const to = newestFirst.find(revision => revision.id === toId) ?? latest;
+
+  const rows = useMemo(
+    () => (from && to ? toSideBySide(diffLines(from.content, to.content)) : []),
+    [from, to]
+  );
+
+  const handleRestore = (revisionId: string) => {
+    onRestore(revisionId);
+    setFromId(null);
+    setToId(null);
+  };
+
+  const renderRevisionSelect = (value: DiagramRevision | undefined, onChange: (id: string) => void) => (
+    <Select value={value?.id} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Choose a revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {newestFirst.map(revision => (
+          <SelectItem key={revision.id} value={revision.id}>
+            {formatRevision(revision)}{revision.message ? ` · ${revision.message}` : ''}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" title="Revision history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Revisions of "{diagram.name}"</DialogTitle>
+          <DialogDescription>
+            Every save is kept. Restore an earlier one or compare any two.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-[30vh] overflow-y-auto">
+          {newestFirst.map(revision => (
+            <div key={revision.id} className="flex items-center justify-between gap-3 p-2 border border-border rounded-md">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {formatRevision(revision)}
+                  {revision === latest && (
+                    <Badge variant="secondary" className="text-xs">Current</Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground truncate">
+                  {revision.message || 'No description'}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={revision === latest}
+                onClick={() => handleRestore(revision.id)}
+              >
+                <RotateCcw className="h-4 w-4" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {newestFirst.length > 1 ? (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              {renderRevisionSelect(from, setFromId)}
+              {renderRevisionSelect(to, setToId)}
+            </div>
+            <SideBySideDiff rows={rows} className="max-h-[40vh]" />
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">
+            Save changes to this diagram to start comparing revisions
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Maximize, Maximize2, Minimize2, ZoomIn, ZoomOut } from "lucide-react";
+import { Size, ViewState, centerOn, fitView, visibleRegion, zoomAt } from "@/lib/viewport";
+
+interface DiagramViewportProps {
+  children: React.ReactNode;
+  // Sets the viewport's size; the diagram is scaled within it
+  className?: string;
+}
+
+const MINIMAP_SIZE = { width: 160, height: 120 };
+const ZOOM_STEP = 1.25;
+
+// Shared pan/zoom frame for rendered diagrams: wheel to zoom around the
+// cursor, drag to pan, double-click or Fit to see everything, plus a minimap
+// while the diagram overflows and a fullscreen mode.
+export function DiagramViewport({ children, className = '' }: DiagramViewportProps) {
+  const frameRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const minimapContentRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+  // Once the user pans or zooms, a changed diagram keeps their view
+  const userMovedRef = useRef(false);
+  const [view, setView] = useState<ViewState>({ scale: 1, x: 0, y: 0 });
+  const [contentSize, setContentSize] = useState<Size>({ width: 0, height: 0 });
+  const [viewportSize, setViewportSize] = useState<Size>({ width: 0, height: 0 });
+  const [isDragging, setIsDragging] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+
+  useEffect(() => {
+    const viewport = viewportRef.current!;
+    const content = contentRef.current!;
+
+    const measure = () => {
+      setViewportSize({ width: viewport.clientWidth, height: viewport.clientHeight });
+      setContentSize({ width: content.offsetWidth, height: content.offsetHeight });
+    };
+    const copyToMinimap = () => {
+      minimapContentRef.current?.replaceChildren(...Array.from(content.childNodes).map(node => node.cloneNode(true)));
+    };
+
+    const resizeObserver = new ResizeObserver(measure);
+    resizeObserver.observe(viewport);
+    resizeObserver.observe(content);
+    const mutationObserver = new MutationObserver(copyToMinimap);
+    mutationObserver.observe(content, { childList: true, subtree: true, attributeFilter: ['src', 'width', 'height'] });
+    copyToMinimap();
+
+    // React registers wheel listeners as passive, which cannot stop the page scrolling
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const box = viewport.getBoundingClientRect();
+      const delta = event.deltaMode === 1 ? event.deltaY * 16 : event.deltaY;
+      userMovedRef.current = true;
+      setView(current => zoomAt(current, Math.exp(-delta * 0.002), {
+        x: event.clientX - box.left,
+        y: event.clientY - box.top,
+      }));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+
+    const handleFullscreenChange = () => {
+      setIsFullscreen(document.fullscreenElement === frameRef.current);
+      userMovedRef.current = false;
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+
+    return () => {
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+      viewport.removeEventListener('wheel', handleWheel);
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!userMovedRef.current) setView(fitView(contentSize, viewportSize));
+  }, [contentSize, viewportSize]);
+
+  const moveView = (update: (current: ViewState) => ViewState) => {
+    userMovedRef.current = true;
+    setView(update);
+  };
+
+  const zoomBy = (factor: number) =>
+    moveView(current => zoomAt(current, factor, { x: viewportSize.width / 2, y: viewportSize.height / 2 }));
+
+  const handleFit = () => {
+    userMovedRef.current = false;
+    setView(fitView(contentSize, viewportSize));
+  };
+
+  const handleToggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      frameRef.current?.requestFullscreen().catch(error => console.error('Fullscreen error:', error));
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, x: view.x, y: view.y };
+    setIsDragging(true);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    moveView(current => ({
+      ...current,
+      x: drag.x + event.clientX - drag.pointerX,
+      y: drag.y + event.clientY - drag.pointerY,
+    }));
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+    setIsDragging(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === '+' || event.key === '=') zoomBy(ZOOM_STEP);
+    else if (event.key === '-') zoomBy(1 / ZOOM_STEP);
+    else if (event.key === '0') handleFit();
+    else return;
+    event.preventDefault();
+  };
+
+  const minimapScale = contentSize.width && contentSize.height
+    ? Math.min(MINIMAP_SIZE.width / contentSize.width, MINIMAP_SIZE.height / contentSize.height)
+    : 0;
+  const isOverflowing = contentSize.width * view.scale > viewportSize.width + 1
+    || contentSize.height * view.scale > viewportSize.height + 1;
+  const visible = visibleRegion(view, viewportSize);
+
+  // Clicking or dragging on the minimap centers the view on that spot
+  const handleMinimapPointer = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.type === 'pointerdown') event.currentTarget.setPointerCapture(event.pointerId);
+    else if (!event.buttons) return;
+    const box = event.currentTarget.getBoundingClientRect();
+    const point = { x: (event.clientX - box.left) / minimapScale, y: (event.clientY - box.top) / minimapScale };
+    moveView(current => centerOn(current, point, viewportSize));
+  };
+
+  return (
+    <div
+      ref={frameRef}
+      className={`relative overflow-hidden rounded-lg border border-border ${isFullscreen ? 'bg-background' : `bg-muted/20 ${className}`}`}
+    >
+      <div
+        ref={viewportRef}
+        tabIndex={0}
+        className={`absolute inset-0 touch-none select-none outline-none ${isDragging ? 'cursor-grabbing' : 'cursor-grab'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onDoubleClick={handleFit}
+        onDragStart={event => event.preventDefault()}
+        onKeyDown={handleKeyDown}
+      >
+        <div
+          ref={contentRef}
+          className="absolute left-0 top-0 w-max origin-top-left"
+          style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}
+        >
+          {children}
+        </div>
+      </div>
+
+      <div className="absolute right-2 top-2 flex items-center gap-1 rounded-md border border-border bg-background/90 p-1 shadow-sm">
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomBy(1 / ZOOM_STEP)} title="Zoom out (-)">
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="w-12 text-center text-xs tabular-nums text-muted-foreground">
+          {Math.round(view.scale * 100)}%
+        </span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => zoomBy(ZOOM_STEP)} title="Zoom in (+)">
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleFit} title="Fit to screen (0)">
+          <Maximize className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={handleToggleFullscreen}
+          title={isFullscreen ? 'Exit fullscreen' : 'Fullscreen'}
+        >
+          {isFullscreen ? <Minimize2 className="h-4 w-4" /> : <Maximize2 className="h-4 w-4" />}
+        </Button>
+      </div>
+
+      <div
+        className={`absolute bottom-2 right-2 overflow-hidden rounded border border-border bg-background/90 shadow-sm cursor-pointer touch-none ${isOverflowing ? '' : 'hidden'}`}
+        style={{ width: contentSize.width * minimapScale, height: contentSize.height * minimapScale }}
+        onPointerDown={handleMinimapPointer}
+        onPointerMove={handleMinimapPointer}
+      >
+        <div
+          ref={minimapContentRef}
+          className="pointer-events-none absolute left-0 top-0 w-max origin-top-left"
+          style={{ transform: `scale(${minimapScale})` }}
+        />
+        <div
+          className="pointer-events-none absolute border-2 border-primary bg-primary/10"
+          style={{
+            left: visible.x * minimapScale,
+            top: visible.y * minimapScale,
+            width: visible.width * minimapScale,
+            height: visible.height * minimapScale,
+          }}
+        />
+      </div>
+    </div>
+  );
+}
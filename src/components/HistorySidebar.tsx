@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { History, MoreHorizontal, Pencil, Pin, PinOff, Trash2 } from "lucide-react";
+import { HistoryEntry } from "@/lib/history";
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  isLoading: boolean;
+  activeEntryId: string | null;
+  onRestore: (entry: HistoryEntry) => void;
+  onRename: (id: string, name: string) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (id: string) => void;
+}
+
+export function HistorySidebar({
+  entries,
+  isLoading,
+  activeEntryId,
+  onRestore,
+  onRename,
+  onTogglePin,
+  onDelete,
+}: HistorySidebarProps) {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+
+  const pinned = entries.filter(entry => entry.pinned);
+  const recent = entries.filter(entry => !entry.pinned);
+
+  const handleRename = () => {
+    if (!renaming || !renaming.name.trim()) return;
+    onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const renderEntry = (entry: HistoryEntry) => (
+    <SidebarMenuItem key={entry.id}>
+      <SidebarMenuButton
+        isActive={entry.id === activeEntryId}
+        onClick={() => onRestore(entry)}
+        className="h-auto flex-col items-start gap-0.5"
+      >
+        <span className="font-medium truncate w-full">{entry.name}</span>
+        <span className="text-xs text-muted-foreground truncate w-full">
+          {new Date(entry.createdAt).toLocaleString()} · {entry.model}
+        </span>
+      </SidebarMenuButton>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <SidebarMenuAction showOnHover>
+            <MoreHorizontal />
+          </SidebarMenuAction>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent side="right" align="start">
+          <DropdownMenuItem onClick={() => setRenaming({ id: entry.id, name: entry.name })}>
+            <Pencil className="h-4 w-4 mr-2" />
+            Rename
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => onTogglePin(entry)}>
+            {entry.pinned ? <PinOff className="h-4 w-4 mr-2" /> : <Pin className="h-4 w-4 mr-2" />}
+            {entry.pinned ? 'Unpin' : 'Pin'}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => onDelete(entry.id)} className="text-destructive">
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </SidebarMenuItem>
+  );
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="flex items-center space-x-2 px-2 py-1">
+            <History className="h-4 w-4 text-primary" />
+            <span className="font-semibold">Generation History</span>
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          {isLoading ? (
+            <SidebarGroup>
+              <SidebarMenu>
+                {Array.from({ length: 3 }).map((_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroup>
+          ) : entries.length === 0 ? (
+            <p className="px-4 py-2 text-sm text-muted-foreground">
+              Generated architectures will appear here.
+            </p>
+          ) : (
+            <>
+              {pinned.length > 0 && (
+                <SidebarGroup>
+                  <SidebarGroupLabel>Pinned</SidebarGroupLabel>
+                  <SidebarGroupContent>
+                    <SidebarMenu>{pinned.map(renderEntry)}</SidebarMenu>
+                  </SidebarGroupContent>
+                </SidebarGroup>
+              )}
+              {recent.length > 0 && (
+                <SidebarGroup>
+                  <SidebarGroupLabel>Recent</SidebarGroupLabel>
+                  <SidebarGroupContent>
+                    <SidebarMenu>{recent.map(renderEntry)}</SidebarMenu>
+                  </SidebarGroupContent>
+                </SidebarGroup>
+              )}
+            </>
+          )}
+        </SidebarContent>
+      </Sidebar>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Rename Generation</DialogTitle>
+            <DialogDescription>
+              Give this generation a name you will recognise later.
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={renaming?.name ?? ''}
+            onChange={(e) => renaming && setRenaming({ ...renaming, name: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && handleRename()}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename}>Rename</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
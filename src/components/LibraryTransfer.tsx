@@ -0,0 +1,237 @@
+import React, { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Archive, Upload, AlertCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Diagram, isQuotaError } from "@/lib/diagrams";
+import {
+  BundleError,
+  COLLISION_OPTIONS,
+  CollisionStrategy,
+  createBundle,
+  findCollisions,
+  parseBundle,
+  planImport,
+} from "@/lib/diagram-bundle";
+import { downloadBlob } from "@/lib/export";
+
+interface LibraryTransferProps {
+  diagrams: Diagram[];
+  onImport: (diagrams: Diagram[]) => Promise<void>;
+}
+
+interface PendingImport {
+  fileName: string;
+  diagrams: Diagram[];
+  invalid: number;
+}
+
+export function LibraryTransfer({ diagrams, onImport }: LibraryTransferProps) {
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [includeRevisions, setIncludeRevisions] = useState(true);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [strategy, setStrategy] = useState<CollisionStrategy>('rename');
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const collisions = pending ? findCollisions(diagrams, pending.diagrams) : [];
+
+  const handleOpenExport = () => {
+    setSelectedIds(diagrams.map(diagram => diagram.id));
+    setIsExportOpen(true);
+  };
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds(previous => checked ? [...previous, id] : previous.filter(selected => selected !== id));
+
+  const handleExport = () => {
+    const selected = diagrams.filter(diagram => selectedIds.includes(diagram.id));
+    const bundle = createBundle(selected, { includeRevisions });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), `plantuml-library-${date}.json`);
+    setIsExportOpen(false);
+
+    toast({
+      title: "Library Exported",
+      description: `${selected.length} ${selected.length === 1 ? 'diagram' : 'diagrams'} written to the bundle.`,
+    });
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const { diagrams: incoming, invalid } = parseBundle(await file.text());
+      if (!incoming.length) throw new BundleError('The file does not contain any readable diagrams.');
+      setStrategy('rename');
+      setPending({ fileName: file.name, diagrams: incoming, invalid });
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof BundleError ? error.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!pending) return;
+    const plan = planImport(diagrams, pending.diagrams, strategy);
+
+    setIsImporting(true);
+    try {
+      await onImport(plan.toSave);
+      setPending(null);
+
+      const details = [
+        plan.renamed.length && `${plan.renamed.length} renamed`,
+        plan.overwritten.length && `${plan.overwritten.length} overwritten`,
+        plan.skipped.length && `${plan.skipped.length} skipped`,
+      ].filter(Boolean).join(', ');
+      toast({
+        title: "Library Imported",
+        description: `${plan.toSave.length} ${plan.toSave.length === 1 ? 'diagram' : 'diagrams'} imported${details ? ` (${details})` : ''}.`,
+      });
+    } catch (error) {
+      console.error('Error importing diagrams:', error);
+      toast({
+        title: isQuotaError(error) ? "Storage Full" : "Import Failed",
+        description: isQuotaError(error)
+          ? "The browser has no room left for these diagrams. Nothing was imported."
+          : "The diagrams could not be stored. Nothing was imported.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={handleOpenExport} disabled={diagrams.length === 0}>
+        <Archive className="h-4 w-4" />
+        Export Library
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="h-4 w-4" />
+        Import Library
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleFileChange}
+        className="hidden"
+      />
+
+      <Dialog open={isExportOpen} onOpenChange={setIsExportOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Export Library</DialogTitle>
+            <DialogDescription>
+              Save diagrams with their folders, tags and revisions to a file you can import elsewhere
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="export-all"
+                  checked={selectedIds.length === diagrams.length}
+                  onCheckedChange={(checked) => setSelectedIds(checked ? diagrams.map(diagram => diagram.id) : [])}
+                />
+                <Label htmlFor="export-all">All diagrams</Label>
+              </div>
+              <span className="text-xs text-muted-foreground">{selectedIds.length} selected</span>
+            </div>
+            <div className="max-h-[40vh] overflow-y-auto space-y-2 border border-border rounded-md p-3">
+              {diagrams.map(diagram => (
+                <div key={diagram.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`export-${diagram.id}`}
+                    checked={selectedIds.includes(diagram.id)}
+                    onCheckedChange={(checked) => toggleSelected(diagram.id, checked === true)}
+                  />
+                  <Label htmlFor={`export-${diagram.id}`} className="font-normal truncate">
+                    {diagram.name}
+                    {diagram.folder && <span className="text-muted-foreground"> · {diagram.folder}</span>}
+                  </Label>
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="export-revisions" checked={includeRevisions} onCheckedChange={setIncludeRevisions} />
+              <Label htmlFor="export-revisions">Include revision history</Label>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button onClick={handleExport} disabled={selectedIds.length === 0}>
+              <Archive className="h-4 w-4" />
+              Export {selectedIds.length} {selectedIds.length === 1 ? 'Diagram' : 'Diagrams'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={pending !== null} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Import Library</DialogTitle>
+            <DialogDescription>
+              {pending && `${pending.fileName} contains ${pending.diagrams.length} ${pending.diagrams.length === 1 ? 'diagram' : 'diagrams'}.`}
+            </DialogDescription>
+          </DialogHeader>
+
+          {pending && pending.invalid > 0 && (
+            <Alert>
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {pending.invalid} {pending.invalid === 1 ? 'entry is' : 'entries are'} damaged and will not be imported.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {collisions.length > 0 ? (
+            <div className="space-y-3">
+              <p className="text-sm">
+                {collisions.length === 1 ? '1 diagram has' : `${collisions.length} diagrams have`} the same name as a
+                saved one: <span className="text-muted-foreground">{collisions.map(diagram => diagram.name).join(', ')}</span>
+              </p>
+              <RadioGroup value={strategy} onValueChange={(value) => setStrategy(value as CollisionStrategy)}>
+                {COLLISION_OPTIONS.map(option => (
+                  <div key={option.value} className="flex items-start gap-2">
+                    <RadioGroupItem value={option.value} id={`collision-${option.value}`} className="mt-0.5" />
+                    <Label htmlFor={`collision-${option.value}`} className="space-y-0.5">
+                      <span className="block">{option.label}</span>
+                      <span className="block text-xs font-normal text-muted-foreground">{option.description}</span>
+                    </Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No name conflicts with your saved diagrams.</p>
+          )}
+
+          <DialogFooter>
+            <Button onClick={handleImport} disabled={isImporting}>
+              <Upload className="h-4 w-4" />
+              {isImporting ? 'Importing...' : 'Import'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
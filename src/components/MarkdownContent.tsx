@@ -0,0 +1,49 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { renderMarkdownToHtml } from "@/lib/markdown";
+import { MERMAID_ERROR_HTML, renderMermaid } from "@/lib/mermaid";
+import "highlight.js/styles/github.css";
+
+interface MarkdownContentProps {
+  markdown: string;
+  // Link reference definitions from the rest of the document, when this
+  // renders only part of it
+  definitions?: string;
+  className?: string;
+}
+
+export function MarkdownContent({ markdown, definitions, className = '' }: MarkdownContentProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const html = useMemo(() => renderMarkdownToHtml(markdown, definitions), [markdown, definitions]);
+
+  // Replace embedded ```mermaid blocks with the rendered diagram once the
+  // sanitized HTML is in the DOM.
+  useEffect(() => {
+    let cancelled = false;
+    const blocks = Array.from(containerRef.current?.querySelectorAll('pre.mermaid-source') ?? []);
+
+    blocks.forEach(async block => {
+      const source = block.textContent ?? '';
+      const figure = document.createElement('div');
+      figure.className = 'not-prose my-4 flex justify-center bg-muted/30 rounded-lg p-4 overflow-x-auto';
+      try {
+        figure.innerHTML = await renderMermaid(source);
+      } catch (error) {
+        console.error('Mermaid render error:', error);
+        figure.innerHTML = MERMAID_ERROR_HTML;
+      }
+      if (!cancelled && block.isConnected) block.replaceWith(figure);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [html]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={className}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+}
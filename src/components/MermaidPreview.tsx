@@ -0,0 +1,60 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DiagramViewport } from "./DiagramViewport";
+import { renderMermaid } from "@/lib/mermaid";
+import { getSvgSize } from "@/lib/export";
+
+interface MermaidPreviewProps {
+  source: string;
+  // Sets the preview's size, e.g. a fixed height
+  className?: string;
+}
+
+// Renders on mount as well as on change, so it survives tab switches that
+// unmount it.
+export function MermaidPreview({ source, className = '' }: MermaidPreviewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    renderMermaid(source)
+      .then(svg => {
+        if (cancelled || !containerRef.current) return;
+        containerRef.current.innerHTML = svg;
+        // Mermaid sizes the SVG to its container; pin it to its real size so
+        // the viewport can measure and scale it
+        const element = containerRef.current.querySelector('svg');
+        if (element) {
+          const { width, height } = getSvgSize(element);
+          element.setAttribute('width', String(width));
+          element.setAttribute('height', String(height));
+          element.style.maxWidth = 'none';
+        }
+        setError(null);
+      })
+      .catch((err: Error) => {
+        if (cancelled) return;
+        console.error('Mermaid render error:', err);
+        setError(err.message || 'Please check the Mermaid syntax');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  return (
+    <div className={`relative ${className}`}>
+      <DiagramViewport className="h-full">
+        <div ref={containerRef} className={error ? 'opacity-30' : ''} />
+      </DiagramViewport>
+      {error && (
+        <div className="absolute inset-x-4 bottom-4 rounded-md border border-destructive/50 bg-background/95 p-3 text-sm">
+          <p className="font-medium text-destructive">Error rendering diagram</p>
+          <pre className="mt-1 whitespace-pre-wrap text-xs text-muted-foreground">{error}</pre>
+        </div>
+      )}
+    </div>
+  );
+}
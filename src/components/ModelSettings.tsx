@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Settings, Info } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PROVIDER_DEFAULTS, PROVIDER_OPTIONS, ProviderId, ProviderSettings } from "@/lib/llm";
+
+interface ModelSettingsProps {
+  settings: ProviderSettings;
+  onSettingsChange: (settings: ProviderSettings) => void;
+}
+
+export function ModelSettings({ settings, onSettingsChange }: ModelSettingsProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const { toast } = useToast();
+
+  const selectedOption = PROVIDER_OPTIONS.find(option => option.id === draft.provider);
+  const isOffline = draft.provider === 'fake';
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) setDraft(settings);
+    setIsDialogOpen(open);
+  };
+
+  const handleProviderChange = (provider: ProviderId) => {
+    setDraft(PROVIDER_DEFAULTS[provider]);
+  };
+
+  const handleSave = () => {
+    if (!isOffline && (!draft.baseUrl.trim() || !draft.model.trim())) {
+      toast({
+        title: "Missing Information",
+        description: "Endpoint URL and model are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSettingsChange(draft);
+    setIsDialogOpen(false);
+
+    toast({
+      title: "Settings Saved",
+      description: `Using ${selectedOption?.label ?? draft.provider} for generation.`,
+    });
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Settings className="h-4 w-4" />
+          Model Settings
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Model Settings</DialogTitle>
+          <DialogDescription>
+            Choose which language model provider generates the architecture.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="provider">Provider</Label>
+            <Select value={draft.provider} onValueChange={(value) => handleProviderChange(value as ProviderId)}>
+              <SelectTrigger id="provider">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROVIDER_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedOption && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>{selectedOption.description}</AlertDescription>
+            </Alert>
+          )}
+
+          {!isOffline && (
+            <>
+              <div className="grid gap-2">
+                <Label htmlFor="base-url">Endpoint URL</Label>
+                <Input
+                  id="base-url"
+                  value={draft.baseUrl}
+                  onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                  placeholder="http://localhost:8787/v1"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="model">Model</Label>
+                <Input
+                  id="model"
+                  value={draft.model}
+                  onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                />
+              </div>
+              {draft.provider !== 'ollama' && (
+                <div className="grid gap-2">
+                  <Label htmlFor="api-key">API Key</Label>
+                  <Input
+                    id="api-key"
+                    type="password"
+                    value={draft.apiKey}
+                    onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                    placeholder="Optional for local servers"
+                  />
+                </div>
+              )}
+              <div className="grid gap-2">
+                <Label htmlFor="temperature">Temperature</Label>
+                <Input
+                  id="temperature"
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={draft.temperature}
+                  onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                />
+              </div>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save Settings</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
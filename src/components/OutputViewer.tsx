@@ -3,63 +3,79 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Download, FileText, Share, Copy, Check } from "lucide-react";
+import { Download, FileText, Share, Copy, Check, RotateCcw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import mermaid from 'mermaid';
-import { Document, Packer, Paragraph, TextRun } from 'docx';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { SectionControls } from "./SectionControls";
+import { MarkdownContent } from "./MarkdownContent";
+import { CodeEditor } from "./CodeEditor";
+import { MermaidPreview } from "./MermaidPreview";
+import { DiagramExportMenu } from "./DiagramExportMenu";
+import { locateSections } from "@/lib/architecture";
+import { linkDefinitions } from "@/lib/markdown";
+import { renderMermaidForExport } from "@/lib/mermaid";
+import { GenerationResult } from "@/lib/llm";
+import { DiagramImage, buildDocx, buildPdf, documentTitle, downloadBlob, rasterizeSvg } from "@/lib/export";
 
 interface OutputViewerProps {
-  result: {
-    document: string;
-    diagram: string;
-  };
+  result: GenerationResult;
+  // Shown on exported title pages; bumps with each refinement
+  version?: number;
+  isStreaming?: boolean;
+  lockedSectionIds?: string[];
+  regeneratingSectionId?: string | null;
+  // Section controls are only shown when these handlers are provided
+  onToggleSectionLock?: (sectionId: string) => void;
+  onRegenerateSection?: (sectionId: string, instruction: string) => void;
+  // The diagram before any manual edits; a reset option appears once it differs
+  generatedDiagram?: string;
+  // The Raw Code tab is read-only without this
+  onDiagramChange?: (diagram: string) => void;
 }
 
-export function OutputViewer({ result }: OutputViewerProps) {
-  const mermaidRef = useRef<HTMLDivElement>(null);
+export function OutputViewer({
+  result,
+  version = 1,
+  isStreaming = false,
+  lockedSectionIds = [],
+  regeneratingSectionId = null,
+  onToggleSectionLock,
+  onRegenerateSection,
+  generatedDiagram,
+  onDiagramChange,
+}: OutputViewerProps) {
   const [copiedStates, setCopiedStates] = useState<{ [key: string]: boolean }>({});
+  const [diagramDraft, setDiagramDraft] = useState(result.diagram);
   const { toast } = useToast();
+  const canEditDiagram = !!onDiagramChange && !isStreaming;
+  const isDiagramEdited = generatedDiagram !== undefined && result.diagram !== generatedDiagram;
 
+  // Follow the result when it changes from outside the editor, e.g. a new turn
   useEffect(() => {
-    if (result.diagram && mermaidRef.current) {
-      mermaid.initialize({ 
-        startOnLoad: true,
-        theme: 'dark',
-        themeVariables: {
-          primaryColor: 'hsl(217, 91%, 60%)',
-          primaryTextColor: 'hsl(220, 9%, 97%)',
-          primaryBorderColor: 'hsl(217, 91%, 60%)',
-          lineColor: 'hsl(220, 13%, 20%)',
-          secondaryColor: 'hsl(220, 13%, 15%)',
-          tertiaryColor: 'hsl(220, 13%, 18%)',
-          background: 'hsl(220, 13%, 9%)',
-          mainBkg: 'hsl(220, 13%, 11%)',
-          secondBkg: 'hsl(220, 13%, 15%)',
-          tertiaryBkg: 'hsl(220, 13%, 18%)',
-        }
-      });
+    setDiagramDraft(result.diagram);
+  }, [result.diagram]);
 
-      const renderDiagram = async () => {
-        try {
-          mermaidRef.current!.innerHTML = '';
-          const { svg } = await mermaid.render('mermaid-diagram', result.diagram);
-          mermaidRef.current!.innerHTML = svg;
-        } catch (error) {
-          console.error('Mermaid render error:', error);
-          mermaidRef.current!.innerHTML = `
-            <div class="p-4 text-center text-muted-foreground">
-              <p>Error rendering diagram</p>
-              <p class="text-sm">Please check the Mermaid syntax</p>
-            </div>
-          `;
-        }
-      };
+  // The debounced write must call the handler from the latest render, which
+  // sees any section lock or regeneration that landed while it waited
+  const onDiagramChangeRef = useRef(onDiagramChange);
+  useEffect(() => {
+    onDiagramChangeRef.current = onDiagramChange;
+  });
 
-      renderDiagram();
-    }
-  }, [result.diagram]);
+  useEffect(() => {
+    if (!onDiagramChangeRef.current || diagramDraft === result.diagram) return;
+    const timer = setTimeout(() => onDiagramChangeRef.current?.(diagramDraft), 500); // Debounce for 500ms
+    return () => clearTimeout(timer);
+  }, [diagramDraft, result.diagram]);
+
+  const handleResetDiagram = () => {
+    if (generatedDiagram === undefined) return;
+    setDiagramDraft(generatedDiagram);
+    onDiagramChange?.(generatedDiagram);
+    toast({
+      title: "Diagram Reset",
+      description: "Your edits have been replaced with the generated diagram.",
+    });
+  };
 
   const handleCopy = async (content: string, type: string) => {
     try {
@@ -84,15 +100,7 @@ export function OutputViewer({ result }: OutputViewerProps) {
   };
 
   const handleDownloadText = (content: string, filename: string) => {
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([content], { type: 'text/plain' }), filename);
 
     toast({
       title: "Downloaded",
@@ -100,44 +108,35 @@ export function OutputViewer({ result }: OutputViewerProps) {
     });
   };
 
-  const handleDownloadDOCX = async () => {
+  // The Mermaid diagram styled for print, for the document exports. A diagram
+  // that fails to render is left out rather than failing the whole export.
+  const exportDiagramSvg = async () => {
+    if (!result.diagram) return undefined;
     try {
-      // Convert markdown to plain text for DOCX
-      const plainText = result.document
-        .replace(/^#{1,6}\s+/gm, '') // Remove markdown headers
-        .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold formatting
-        .replace(/\*(.*?)\*/g, '$1') // Remove italic formatting
-        .replace(/^-\s+/gm, '• '); // Convert list items
+      return await renderMermaidForExport(result.diagram);
+    } catch (error) {
+      console.error('Error rendering diagram for export:', error);
+      return undefined;
+    }
+  };
 
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: plainText.split('\n').filter(line => line.trim()).map(line => 
-            new Paragraph({
-              children: [new TextRun(line)],
-            })
-          ),
-        }],
-      });
+  const captureDiagram = async (): Promise<DiagramImage | undefined> => {
+    const svg = await exportDiagramSvg();
+    return svg && rasterizeSvg(svg, 2, '#ffffff');
+  };
 
-      const buffer = await Packer.toBuffer(doc);
-      const blob = new Blob([buffer], { 
-        type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
-      });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'architecture.docx';
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+  const handleDownloadDOCX = async () => {
+    try {
+      const metadata = { title: documentTitle(result), version, date: new Date() };
+      const blob = await buildDocx(result.document, metadata, await captureDiagram());
+      downloadBlob(blob, 'architecture.docx');
 
       toast({
         title: "DOCX Downloaded",
         description: "Architecture document exported as Word document successfully.",
       });
     } catch (error) {
+      console.error('DOCX export error:', error);
       toast({
         title: "Export Failed",
         description: "Failed to export document as DOCX.",
@@ -148,37 +147,16 @@ export function OutputViewer({ result }: OutputViewerProps) {
 
   const handleDownloadPDF = async () => {
     try {
-      const pdf = new jsPDF();
-      
-      // Convert markdown to plain text and add to PDF
-      const plainText = result.document
-        .replace(/^#{1,6}\s+/gm, '') // Remove markdown headers
-        .replace(/\*\*(.*?)\*\*/g, '$1') // Remove bold formatting
-        .replace(/\*(.*?)\*/g, '$1') // Remove italic formatting
-        .replace(/^-\s+/gm, '• '); // Convert list items
-
-      const lines = pdf.splitTextToSize(plainText, 180);
-      pdf.text(lines, 15, 20);
-
-      // If there's a diagram, try to add it
-      if (mermaidRef.current && mermaidRef.current.querySelector('svg')) {
-        try {
-          const canvas = await html2canvas(mermaidRef.current);
-          const imgData = canvas.toDataURL('image/png');
-          pdf.addPage();
-          pdf.addImage(imgData, 'PNG', 10, 10, 190, 100);
-        } catch (diagramError) {
-          console.error('Error adding diagram to PDF:', diagramError);
-        }
-      }
-
-      pdf.save('architecture.pdf');
+      const metadata = { title: documentTitle(result), version, date: new Date() };
+      const blob = await buildPdf(result.document, metadata, await exportDiagramSvg());
+      downloadBlob(blob, 'architecture.pdf');
 
       toast({
         title: "PDF Downloaded",
         description: "Architecture document exported as PDF successfully.",
       });
     } catch (error) {
+      console.error('PDF export error:', error);
       toast({
         title: "Export Failed",
         description: "Failed to export document as PDF.",
@@ -187,28 +165,47 @@ export function OutputViewer({ result }: OutputViewerProps) {
     }
   };
 
-  const renderMarkdown = (markdown: string) => {
-    // Simple markdown rendering - in production, use a proper markdown parser
-    return markdown
-      .split('\n')
-      .map((line, index) => {
-        if (line.startsWith('# ')) {
-          return <h1 key={index} className="text-2xl font-bold mt-6 mb-4 text-foreground">{line.slice(2)}</h1>;
-        }
-        if (line.startsWith('## ')) {
-          return <h2 key={index} className="text-xl font-semibold mt-5 mb-3 text-foreground">{line.slice(3)}</h2>;
-        }
-        if (line.startsWith('### ')) {
-          return <h3 key={index} className="text-lg font-medium mt-4 mb-2 text-foreground">{line.slice(4)}</h3>;
-        }
-        if (line.startsWith('- ')) {
-          return <li key={index} className="ml-4 text-muted-foreground">{line.slice(2)}</li>;
-        }
-        if (line.trim() === '') {
-          return <br key={index} />;
-        }
-        return <p key={index} className="mb-2 text-muted-foreground leading-relaxed">{line}</p>;
-      });
+  // Render the document section by section so each heading can carry its
+  // regenerate/lock controls. Only ## and deeper headings get controls: the
+  // top-level title spans the whole document.
+  const renderDocument = (markdown: string) => {
+    const lines = markdown.split('\n');
+    const sections = locateSections(markdown);
+    const intro = lines.slice(0, sections[0]?.line ?? lines.length).join('\n');
+    // Sections are parsed apart, so each needs the whole document's link definitions
+    const definitions = linkDefinitions(markdown);
+
+    return (
+      <>
+        {intro.trim() && <MarkdownContent markdown={intro} definitions={definitions} />}
+        {sections.map(section => {
+          const isLocked = lockedSectionIds.includes(section.id);
+          const hasControls = section.level > 1 && onToggleSectionLock && onRegenerateSection;
+
+          return (
+            <div
+              key={section.id}
+              className={isLocked ? 'border-l-2 border-primary/50 pl-3 -ml-3' : ''}
+            >
+              <div className="group flex items-center justify-between gap-2">
+                <MarkdownContent markdown={lines[section.line]} definitions={definitions} className="min-w-0" />
+                {hasControls && (
+                  <SectionControls
+                    heading={section.heading}
+                    isLocked={isLocked}
+                    isRegenerating={regeneratingSectionId === section.id}
+                    disabled={isStreaming}
+                    onToggleLock={() => onToggleSectionLock(section.id)}
+                    onRegenerate={(instruction) => onRegenerateSection(section.id, instruction)}
+                  />
+                )}
+              </div>
+              <MarkdownContent markdown={lines.slice(section.line + 1, section.bodyEnd).join('\n')} definitions={definitions} />
+            </div>
+          );
+        })}
+      </>
+    );
   };
 
   return (
@@ -260,8 +257,13 @@ export function OutputViewer({ result }: OutputViewerProps) {
       <TabsContent value="document" className="mt-0">
         <Card className="material-card">
           <CardContent className="p-6">
-            <div className="prose prose-invert max-w-none">
-              {renderMarkdown(result.document)}
+            {isStreaming && (
+              <Badge variant="secondary" className="text-xs mb-4 animate-pulse">
+                Streaming...
+              </Badge>
+            )}
+            <div className="prose prose-slate dark:prose-invert max-w-none prose-pre:p-0 prose-pre:bg-transparent prose-pre:border">
+              {renderDocument(result.document)}
             </div>
           </CardContent>
         </Card>
@@ -274,23 +276,33 @@ export function OutputViewer({ result }: OutputViewerProps) {
               <Badge variant="secondary" className="text-xs">
                 Mermaid Diagram
               </Badge>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleCopy(result.diagram, 'Diagram')}
-              >
-                {copiedStates['Diagram'] ? (
-                  <Check className="h-4 w-4" />
-                ) : (
-                  <Copy className="h-4 w-4" />
-                )}
-                Copy
-              </Button>
+              <div className="flex gap-2">
+                <DiagramExportMenu
+                  getSvg={exportDiagramSvg}
+                  filename="architecture-diagram"
+                  disabled={!result.diagram || isStreaming}
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(result.diagram, 'Diagram')}
+                >
+                  {copiedStates['Diagram'] ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                  Copy
+                </Button>
+              </div>
             </div>
-            <div 
-              ref={mermaidRef}
-              className="bg-muted/30 rounded-lg p-4 overflow-x-auto min-h-[300px] flex items-center justify-center"
-            />
+            {result.diagram ? (
+              <MermaidPreview source={result.diagram} className="h-[500px]" />
+            ) : (
+              <div className="bg-muted/30 rounded-lg p-4 h-[500px] flex items-center justify-center text-sm text-muted-foreground">
+                {isStreaming ? 'The diagram will appear once the model finishes writing it.' : 'No diagram was generated.'}
+              </div>
+            )}
           </CardContent>
         </Card>
       </TabsContent>
@@ -299,25 +311,59 @@ export function OutputViewer({ result }: OutputViewerProps) {
         <Card className="material-card">
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
-              <Badge variant="secondary" className="text-xs">
-                Mermaid Source Code
-              </Badge>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleCopy(result.diagram, 'Raw Code')}
-              >
-                {copiedStates['Raw Code'] ? (
-                  <Check className="h-4 w-4" />
-                ) : (
-                  <Copy className="h-4 w-4" />
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">
+                  Mermaid Source Code
+                </Badge>
+                {isDiagramEdited && (
+                  <Badge variant="outline" className="text-xs">
+                    Edited
+                  </Badge>
                 )}
-                Copy
-              </Button>
+              </div>
+              <div className="flex gap-2">
+                {isDiagramEdited && onDiagramChange && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleResetDiagram}
+                    disabled={isStreaming}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                    Reset to Generated
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCopy(diagramDraft, 'Raw Code')}
+                >
+                  {copiedStates['Raw Code'] ? (
+                    <Check className="h-4 w-4" />
+                  ) : (
+                    <Copy className="h-4 w-4" />
+                  )}
+                  Copy
+                </Button>
+              </div>
+            </div>
+            <div className="grid gap-4 lg:grid-cols-2">
+              <CodeEditor
+                value={diagramDraft}
+                language="mermaid"
+                onChange={setDiagramDraft}
+                readOnly={!canEditDiagram}
+                placeholder="Enter Mermaid diagram code..."
+                className="h-[400px]"
+              />
+              {result.diagram ? (
+                <MermaidPreview source={result.diagram} className="h-[400px]" />
+              ) : (
+                <div className="bg-muted/30 rounded-lg p-4 h-[400px] flex items-center justify-center text-sm text-muted-foreground">
+                  The preview appears as you type.
+                </div>
+              )}
             </div>
-            <pre className="bg-muted/30 rounded-lg p-4 overflow-x-auto text-sm font-mono text-muted-foreground">
-              <code>{result.diagram}</code>
-            </pre>
           </CardContent>
         </Card>
       </TabsContent>
@@ -1,67 +1,183 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Download, FileText, Copy, Save, Trash2, Plus } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Download, FileText, Copy, Save, Trash2, Plus, ServerOff, RefreshCw, AlertCircle, FolderOpen, ChevronLeft, ChevronRight } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { encode } from 'plantuml-encoder';
-import { Document, Packer, Paragraph, ImageRun } from 'docx';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { usePlantUMLServer } from "@/hooks/use-plantuml-server";
+import { useDiagramLibrary } from "@/hooks/use-diagram-library";
+import {
+  PLANTUML_FILE_EXTENSIONS,
+  PlantUMLIncludeError,
+  PlantUMLServerError,
+  PlantUMLSyntaxError,
+  ServerHealth,
+  diagramsFromFile,
+  isPlantUMLFile,
+  ResolvedSource,
+  renderPlantUMLPages,
+  resolveIncludes,
+  splitPages,
+} from "@/lib/plantuml";
+import { RenderServerSettings } from "./RenderServerSettings";
+import { CodeEditor, CodeEditorHandle } from "./CodeEditor";
+import { DiagramViewport } from "./DiagramViewport";
+import { DiagramExportMenu } from "./DiagramExportMenu";
+import { DiagramLibrary } from "./DiagramLibrary";
+import { LibraryTransfer } from "./LibraryTransfer";
+import { Diagram, addRevision, createDiagram, isQuotaError, restoreRevision } from "@/lib/diagrams";
+import { planImport } from "@/lib/diagram-bundle";
+import { DiagramExportOptions, DiagramExportPage, buildDiagramDocx, buildDiagramPdf, downloadBlob } from "@/lib/export";
 
 const DEFAULT_PLANTUML = `@startuml
 Alice -> Bob: Hello
 Bob -> Alice: Hi there!
 @enduml`;
 
-interface Diagram {
-  id: string;
-  name: string;
-  content: string;
-  createdAt: string;
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const exponent = Math.min(Math.floor(Math.log(Math.max(bytes, 1)) / Math.log(1024)), units.length - 1);
+  return `${(bytes / 1024 ** exponent).toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
+const EXPORT_DPI_OPTIONS = [
+  { value: 96, label: '96 DPI (screen)' },
+  { value: 150, label: '150 DPI' },
+  { value: 300, label: '300 DPI (print)' },
+];
+
+// A rendered page of the preview
+interface PreviewPage {
+  url: string;
+  label: string;
 }
 
+const HEALTH_LABELS: Record<ServerHealth, { label: string; dot: string }> = {
+  checking: { label: 'Checking server', dot: 'bg-muted-foreground animate-pulse' },
+  online: { label: 'Server online', dot: 'bg-green-500' },
+  offline: { label: 'Server unreachable', dot: 'bg-destructive' },
+};
+
 export function PlantUMLEditor() {
   const [plantUMLCode, setPlantUMLCode] = useState(DEFAULT_PLANTUML);
-  const [diagramUrl, setDiagramUrl] = useState('');
-  const [savedDiagrams, setSavedDiagrams] = useState<Diagram[]>([]);
+  const [pages, setPages] = useState<PreviewPage[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
   const [currentDiagramName, setCurrentDiagramName] = useState('');
+  // The saved diagram being edited; saving adds a revision to it
+  const [currentDiagramId, setCurrentDiagramId] = useState<string | null>(null);
+  const [revisionMessage, setRevisionMessage] = useState('');
   const [isRendering, setIsRendering] = useState(false);
+  const [renderError, setRenderError] = useState<Error | null>(null);
+  const [renderAttempt, setRenderAttempt] = useState(0);
+  const [exportDpi, setExportDpi] = useState(150);
+  const [includeSource, setIncludeSource] = useState(false);
+  const server = usePlantUMLServer();
+  const library = useDiagramLibrary();
+  const isServerOnline = server.health === 'online';
+  const includeFiles = useMemo(() => library.diagrams.filter(diagram => diagram.includable), [library.diagrams]);
+  const codeEditorRef = useRef<CodeEditorHandle>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  // What to do once the user agrees to drop the unsaved editor text
+  const [pendingDiscard, setPendingDiscard] = useState<(() => void) | null>(null);
+  const syntaxError = renderError instanceof PlantUMLSyntaxError ? renderError : null;
+  // Only a request that never got an answer means the server is down;
+  // anything else is shown as the error it is
+  const isServerUnreachable = renderError instanceof PlantUMLServerError && renderError.status === undefined;
+  const diagramUrl = pages[pageIndex]?.url ?? '';
   const { toast } = useToast();
 
-  // Generate diagram URL from PlantUML code
-  const generateDiagramUrl = useCallback((code: string) => {
-    try {
-      const encoded = encode(code);
-      return `https://www.plantuml.com/plantuml/svg/${encoded}`;
-    } catch (error) {
-      console.error('Error encoding PlantUML:', error);
-      return '';
-    }
-  }, []);
-
-  // Update diagram when code changes
+  // Render on the configured server whenever the code changes, and again when
+  // the server comes back. Every @startuml block and `newpage` is a page of its
+  // own; the preview shows each through an object URL. !include lines naming
+  // saved diagrams are resolved first, since the server cannot see the library.
   useEffect(() => {
+    const controller = new AbortController();
     setIsRendering(true);
-    const timer = setTimeout(() => {
-      const url = generateDiagramUrl(plantUMLCode);
-      setDiagramUrl(url);
-      setIsRendering(false);
+
+    const timer = setTimeout(async () => {
+      let resolved: ResolvedSource | undefined;
+      try {
+        resolved = resolveIncludes(plantUMLCode, includeFiles);
+        const blobs = await renderPlantUMLPages(server.settings, resolved.source, 'svg', controller.signal);
+        if (controller.signal.aborted) return;
+        const sources = splitPages(resolved.source);
+        const objectUrls = blobs.map(blob => URL.createObjectURL(blob));
+        setPages(objectUrls.map((url, index) => ({
+          url,
+          label: sources[index]?.name ? `Page ${index + 1} · ${sources[index].name}` : `Page ${index + 1}`,
+        })));
+        setPageIndex(index => Math.min(index, objectUrls.length - 1));
+        setRenderError(null);
+      } catch (error) {
+        if ((error as Error).name === 'AbortError') return;
+        console.error('Error rendering PlantUML:', error);
+        setPages([]);
+        // The server numbers lines of the resolved source; point at the editor's
+        if (error instanceof PlantUMLSyntaxError && resolved) {
+          setRenderError(new PlantUMLSyntaxError(error.message, error.line && resolved.lines[error.line - 1]));
+        } else {
+          setRenderError(error as Error);
+        }
+      } finally {
+        if (!controller.signal.aborted) setIsRendering(false);
+      }
     }, 500); // Debounce for 500ms
 
-    return () => clearTimeout(timer);
-  }, [plantUMLCode, generateDiagramUrl]);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [plantUMLCode, includeFiles, server.settings, isServerOnline, renderAttempt]);
 
-  // Load saved diagrams from localStorage
-  useEffect(() => {
-    const saved = localStorage.getItem('plantuml-diagrams');
-    if (saved) {
-      setSavedDiagrams(JSON.parse(saved));
+  // A render's object URLs stay valid until the next render has replaced
+  // them, so exports and thumbnails never load a revoked URL
+  useEffect(() => () => pages.forEach(page => URL.revokeObjectURL(page.url)), [pages]);
+
+  const currentDiagram = library.diagrams.find(d => d.id === currentDiagramId);
+  const hasUnsavedChanges = plantUMLCode !== (currentDiagram ? currentDiagram.content : DEFAULT_PLANTUML);
+
+  // Anything that replaces the editor text asks first when it holds edits
+  // that are not saved
+  const confirmDiscard = (replace: () => void) => {
+    if (hasUnsavedChanges) setPendingDiscard(() => replace);
+    else replace();
+  };
+
+  // Write one diagram, reporting a full disk separately since the fix differs
+  const storeDiagram = async (diagram: Diagram) => {
+    try {
+      await library.save(diagram);
+      return true;
+    } catch (error) {
+      console.error('Error saving diagram:', error);
+      toast({
+        title: isQuotaError(error) ? "Storage Full" : "Save Failed",
+        description: isQuotaError(error)
+          ? "The browser has no room left for this diagram. Delete diagrams you no longer need and try again."
+          : "The diagram could not be stored in the browser.",
+        variant: "destructive",
+      });
+      return false;
     }
-  }, []);
+  };
 
-  const handleSaveDiagram = () => {
+  const handleSaveDiagram = async (asNew = false) => {
     if (!currentDiagramName.trim()) {
       toast({
         title: "Missing Name",
@@ -71,17 +187,25 @@ export function PlantUMLEditor() {
       return;
     }
 
-    const newDiagram: Diagram = {
-      id: Date.now().toString(),
-      name: currentDiagramName,
-      content: plantUMLCode,
-      createdAt: new Date().toISOString(),
-    };
+    const message = revisionMessage.trim() || undefined;
+    if (currentDiagram && !asNew) {
+      const updated = addRevision(currentDiagram, currentDiagramName.trim(), plantUMLCode, message);
+      if (!await storeDiagram(updated)) return;
+      setRevisionMessage('');
 
-    const updatedDiagrams = [...savedDiagrams, newDiagram];
-    setSavedDiagrams(updatedDiagrams);
-    localStorage.setItem('plantuml-diagrams', JSON.stringify(updatedDiagrams));
-    setCurrentDiagramName('');
+      toast({
+        title: updated.revisions.length > currentDiagram.revisions.length ? "Revision Saved" : "No Changes",
+        description: updated.revisions.length > currentDiagram.revisions.length
+          ? `"${updated.name}" now has ${updated.revisions.length} revisions.`
+          : `"${updated.name}" already matches the editor.`,
+      });
+      return;
+    }
+
+    const newDiagram = createDiagram(currentDiagramName.trim(), plantUMLCode, message);
+    if (!await storeDiagram(newDiagram)) return;
+    setCurrentDiagramId(newDiagram.id);
+    setRevisionMessage('');
 
     toast({
       title: "Diagram Saved",
@@ -89,15 +213,27 @@ export function PlantUMLEditor() {
     });
   };
 
-  const handleLoadDiagram = (diagram: Diagram) => {
+  const openDiagram = (diagram: Diagram) => {
     setPlantUMLCode(diagram.content);
     setCurrentDiagramName(diagram.name);
+    setCurrentDiagramId(diagram.id);
   };
 
-  const handleDeleteDiagram = (id: string) => {
-    const updatedDiagrams = savedDiagrams.filter(d => d.id !== id);
-    setSavedDiagrams(updatedDiagrams);
-    localStorage.setItem('plantuml-diagrams', JSON.stringify(updatedDiagrams));
+  const handleLoadDiagram = (diagram: Diagram) => confirmDiscard(() => openDiagram(diagram));
+
+  const handleDeleteDiagram = async (id: string) => {
+    try {
+      await library.remove(id);
+    } catch (error) {
+      console.error('Error deleting diagram:', error);
+      toast({
+        title: "Delete Failed",
+        description: "The diagram could not be removed.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (id === currentDiagramId) setCurrentDiagramId(null);
 
     toast({
       title: "Diagram Deleted",
@@ -105,10 +241,160 @@ export function PlantUMLEditor() {
     });
   };
 
-  const handleNewDiagram = () => {
+  // Restoring also opens the diagram, so the editor shows what was restored
+  const handleRestoreRevision = (diagram: Diagram, revisionId: string) => confirmDiscard(async () => {
+    const updated = restoreRevision(diagram, revisionId);
+    if (!await storeDiagram(updated)) return;
+    openDiagram(updated);
+
+    toast({
+      title: "Revision Restored",
+      description: `"${updated.name}" is back to the selected revision.`,
+    });
+  });
+
+  // Folders and tags are filing, not content, so they do not add a revision
+  const handleOrganizeDiagram = async (diagram: Diagram, folder: string | undefined, tags: string[]) => {
+    if (await storeDiagram({ ...diagram, folder, tags })) {
+      toast({
+        title: "Diagram Organized",
+        description: folder ? `"${diagram.name}" is now in ${folder}.` : `"${diagram.name}" has been updated.`,
+      });
+    }
+  };
+
+  // Offering a diagram for !include is filing too, not a content change
+  const handleIncludableChange = async (diagram: Diagram, includable: boolean) => {
+    if (await storeDiagram({ ...diagram, includable: includable || undefined })) {
+      toast({
+        title: includable ? "Include Library Added" : "Include Library Removed",
+        description: includable
+          ? `Other diagrams can now use !include <${diagram.name}>.`
+          : `"${diagram.name}" can no longer be included.`,
+      });
+    }
+  };
+
+  // An import may overwrite the diagram open in the editor; reopen it so the
+  // next save builds on the imported content rather than reverting it
+  const handleImportDiagrams = async (diagrams: Diagram[]) => {
+    await library.saveAll(diagrams);
+    const reopened = diagrams.find(diagram => diagram.id === currentDiagramId);
+    if (reopened) openDiagram(reopened);
+  };
+
+  const handleDownloadUnreadable = () => {
+    const records = library.unreadable.map(record => record.raw);
+    downloadBlob(new Blob([JSON.stringify(records, null, 2)], { type: 'application/json' }), 'unreadable-diagrams.json');
+  };
+
+  const handleDiscardUnreadable = async () => {
+    try {
+      await library.discardUnreadable();
+      toast({
+        title: "Records Discarded",
+        description: "The unreadable records have been removed.",
+      });
+    } catch (error) {
+      console.error('Error discarding records:', error);
+      toast({
+        title: "Discard Failed",
+        description: "The unreadable records could not be removed.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // One diagram opens in the editor like a new, unsaved one. Several (from
+  // multiple files or multiple @startuml blocks) go straight into the
+  // library, renamed where they clash, and the first is opened.
+  const openFiles = async (files: File[]) => {
+    const accepted = files.filter(file => isPlantUMLFile(file.name));
+    const skipped = files.length - accepted.length;
+    const skippedNote = skipped ? ` ${skipped} unsupported ${skipped === 1 ? 'file was' : 'files were'} skipped.` : '';
+    if (!accepted.length) {
+      toast({
+        title: "Unsupported File",
+        description: `Open PlantUML files ending in ${PLANTUML_FILE_EXTENSIONS.join(', ')}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const opened = (await Promise.all(accepted.map(async file => diagramsFromFile(file.name, await file.text())))).flat();
+
+      if (opened.length === 1) {
+        setPlantUMLCode(opened[0].content);
+        setCurrentDiagramName(opened[0].name);
+        setCurrentDiagramId(null);
+        toast({
+          title: "File Opened",
+          description: `"${opened[0].name}" is open in the editor. Save it to keep it in the library.${skippedNote}`,
+        });
+        return;
+      }
+
+      const incoming = opened.map(diagram => createDiagram(diagram.name, diagram.content, 'Opened from file'));
+      const { toSave } = planImport(library.diagrams, incoming, 'rename');
+      await library.saveAll(toSave);
+      openDiagram(toSave[0]);
+      toast({
+        title: "Diagrams Imported",
+        description: `${toSave.length} diagrams were added to the library.${skippedNote}`,
+      });
+    } catch (error) {
+      console.error('Error opening files:', error);
+      toast({
+        title: isQuotaError(error) ? "Storage Full" : "Open Failed",
+        description: isQuotaError(error)
+          ? "The browser has no room left for these diagrams."
+          : "The files could not be read.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenFiles = (files: File[]) => confirmDiscard(() => void openFiles(files));
+
+  const handleFileInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length) handleOpenFiles(files);
+  };
+
+  const isFileDrag = (event: React.DragEvent) => event.dataTransfer.types.includes('Files');
+
+  const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFile(false);
+  };
+
+  // Captured so the code editor does not paste the file in as text
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDraggingFile(false);
+    handleOpenFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleRetryRender = () => {
+    setRenderAttempt(attempt => attempt + 1);
+    server.recheck();
+  };
+
+  const handleNewDiagram = () => confirmDiscard(() => {
     setPlantUMLCode(DEFAULT_PLANTUML);
     setCurrentDiagramName('');
-  };
+    setCurrentDiagramId(null);
+  });
 
   const handleCopyCode = async () => {
     try {
@@ -127,15 +413,7 @@ export function PlantUMLEditor() {
   };
 
   const handleDownloadText = () => {
-    const blob = new Blob([plantUMLCode], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${currentDiagramName || 'diagram'}.puml`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([plantUMLCode], { type: 'text/plain' }), `${currentDiagramName || 'diagram'}.puml`);
 
     toast({
       title: "Downloaded",
@@ -143,27 +421,42 @@ export function PlantUMLEditor() {
     });
   };
 
-  const handleDownloadPDF = async () => {
-    if (!diagramUrl) return;
+  const loadSvg = async (url: string) => {
+    const markup = await (await fetch(url)).text();
+    return new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement as unknown as SVGSVGElement;
+  };
+
+  // The page on show as an SVG element, for the image exports
+  const previewSvg = async () => (diagramUrl ? loadSvg(diagramUrl) : undefined);
+
+  // Every page for the PDF and DOCX exports, titled by page when there are several
+  const exportPages = async (): Promise<DiagramExportPage[]> => {
+    const title = currentDiagramName || 'PlantUML Diagram';
+    return Promise.all(pages.map(async page => ({
+      svg: await loadSvg(page.url),
+      title: pages.length > 1 ? `${title} – ${page.label}` : title,
+    })));
+  };
+
+  // Shared by the PDF and DOCX exports: the rendered diagram at the chosen
+  // resolution, plus the source when asked for
+  const exportOptions = (): DiagramExportOptions => ({
+    title: currentDiagramName || 'PlantUML Diagram',
+    dpi: exportDpi,
+    appendix: includeSource ? { title: 'Appendix: PlantUML Source', source: plantUMLCode } : undefined,
+  });
 
+  const handleDownloadPDF = async () => {
     try {
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      img.onload = () => {
-        const pdf = new jsPDF();
-        const imgWidth = 190;
-        const imgHeight = (img.height * imgWidth) / img.width;
-        
-        pdf.addImage(img, 'PNG', 10, 10, imgWidth, imgHeight);
-        pdf.save(`${currentDiagramName || 'diagram'}.pdf`);
+      if (!pages.length) return;
+      downloadBlob(await buildDiagramPdf(await exportPages(), exportOptions()), `${currentDiagramName || 'diagram'}.pdf`);
 
-        toast({
-          title: "PDF Downloaded",
-          description: "Diagram exported as PDF successfully.",
-        });
-      };
-      img.src = diagramUrl;
+      toast({
+        title: "PDF Downloaded",
+        description: "Diagram exported as PDF successfully.",
+      });
     } catch (error) {
+      console.error('PDF export error:', error);
       toast({
         title: "Export Failed",
         description: "Failed to export diagram as PDF.",
@@ -173,48 +466,16 @@ export function PlantUMLEditor() {
   };
 
   const handleDownloadDOCX = async () => {
-    if (!diagramUrl) return;
-
     try {
-      const response = await fetch(diagramUrl);
-      const arrayBuffer = await response.arrayBuffer();
-
-      const doc = new Document({
-        sections: [{
-          properties: {},
-          children: [
-            new Paragraph({
-              children: [
-                new ImageRun({
-                  data: arrayBuffer,
-                  transformation: {
-                    width: 600,
-                    height: 400,
-                  },
-                  type: 'png',
-                }),
-              ],
-            }),
-          ],
-        }],
-      });
-
-      const buffer = await Packer.toBuffer(doc);
-      const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${currentDiagramName || 'diagram'}.docx`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      if (!pages.length) return;
+      downloadBlob(await buildDiagramDocx(await exportPages(), exportOptions()), `${currentDiagramName || 'diagram'}.docx`);
 
       toast({
         title: "DOCX Downloaded",
         description: "Diagram exported as Word document successfully.",
       });
     } catch (error) {
+      console.error('DOCX export error:', error);
       toast({
         title: "Export Failed",
         description: "Failed to export diagram as DOCX.",
@@ -242,6 +503,18 @@ export function PlantUMLEditor() {
               <Plus className="h-4 w-4" />
               New Diagram
             </Button>
+            <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm">
+              <FolderOpen className="h-4 w-4" />
+              Open Files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={PLANTUML_FILE_EXTENSIONS.join(',')}
+              onChange={handleFileInputChange}
+              className="hidden"
+            />
             <Button onClick={handleCopyCode} variant="outline" size="sm">
               <Copy className="h-4 w-4" />
               Copy Code
@@ -250,69 +523,139 @@ export function PlantUMLEditor() {
               <Download className="h-4 w-4" />
               Download Text
             </Button>
-            <Button onClick={handleDownloadPDF} variant="outline" size="sm">
+            <Button onClick={handleDownloadPDF} variant="outline" size="sm" disabled={!diagramUrl}>
               <Download className="h-4 w-4" />
               Export PDF
             </Button>
-            <Button onClick={handleDownloadDOCX} variant="outline" size="sm">
+            <Button onClick={handleDownloadDOCX} variant="outline" size="sm" disabled={!diagramUrl}>
               <Download className="h-4 w-4" />
               Export DOCX
             </Button>
+            <DiagramExportMenu
+              getSvg={previewSvg}
+              filename={currentDiagramName || 'diagram'}
+              disabled={!diagramUrl}
+            />
+            <LibraryTransfer diagrams={library.diagrams} onImport={handleImportDiagrams} />
+            <RenderServerSettings settings={server.settings} onSettingsChange={server.update} />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Label htmlFor="export-dpi" className="text-sm">PDF/DOCX resolution</Label>
+              <Select value={String(exportDpi)} onValueChange={(value) => setExportDpi(Number(value))}>
+                <SelectTrigger id="export-dpi" className="h-8 w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EXPORT_DPI_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="include-source" checked={includeSource} onCheckedChange={setIncludeSource} />
+              <Label htmlFor="include-source" className="text-sm">Append PlantUML source</Label>
+            </div>
           </div>
 
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <input
               type="text"
               placeholder="Enter diagram name to save..."
               value={currentDiagramName}
               onChange={(e) => setCurrentDiagramName(e.target.value)}
-              className="flex-1 px-3 py-2 border border-border rounded-md bg-background"
+              className="flex-1 min-w-[200px] px-3 py-2 border border-border rounded-md bg-background"
             />
-            <Button onClick={handleSaveDiagram} variant="default" size="sm">
+            <input
+              type="text"
+              placeholder="Describe this change (optional)"
+              value={revisionMessage}
+              onChange={(e) => setRevisionMessage(e.target.value)}
+              className="flex-1 min-w-[200px] px-3 py-2 border border-border rounded-md bg-background"
+            />
+            <Button onClick={() => handleSaveDiagram()} variant="default" size="sm">
               <Save className="h-4 w-4" />
-              Save
+              {currentDiagram ? 'Save Revision' : 'Save'}
             </Button>
+            {currentDiagram && (
+              <Button onClick={() => handleSaveDiagram(true)} variant="outline" size="sm">
+                <Copy className="h-4 w-4" />
+                Save as New
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
       {/* Saved Diagrams */}
-      {savedDiagrams.length > 0 && (
+      {(library.diagrams.length > 0 || library.unreadable.length > 0 || library.error) && (
         <Card className="shadow-sm">
           <CardHeader>
-            <CardTitle>Saved Diagrams</CardTitle>
-            <CardDescription>
-              Load or delete your saved PlantUML diagrams
-            </CardDescription>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Saved Diagrams</CardTitle>
+                <CardDescription>
+                  Search, organize and load your saved PlantUML diagrams
+                </CardDescription>
+              </div>
+              {library.usage && (
+                <div className="w-48 space-y-1 text-xs text-muted-foreground">
+                  <Progress value={(library.usage.usage / library.usage.quota) * 100} className="h-1.5" />
+                  <p>
+                    {formatBytes(library.usage.usage)} of {formatBytes(library.usage.quota)} browser storage used
+                  </p>
+                </div>
+              )}
+            </div>
           </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-              {savedDiagrams.map((diagram) => (
-                <div key={diagram.id} className="p-3 border border-border rounded-lg">
-                  <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-medium truncate">{diagram.name}</h4>
-                    <Button
-                      onClick={() => handleDeleteDiagram(diagram.id)}
-                      variant="ghost"
-                      size="sm"
-                    >
+          <CardContent className="space-y-4">
+            {library.error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>Saved diagrams are unavailable</AlertTitle>
+                <AlertDescription>
+                  The browser database could not be opened: {library.error.message}
+                </AlertDescription>
+              </Alert>
+            )}
+            {library.unreadable.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>
+                  {library.unreadable.length === 1
+                    ? '1 saved diagram could not be read'
+                    : `${library.unreadable.length} saved diagrams could not be read`}
+                </AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>Download the raw data to recover it by hand, then discard it from the library.</p>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" onClick={handleDownloadUnreadable}>
+                      <Download className="h-4 w-4" />
+                      Download Raw Data
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={handleDiscardUnreadable}>
                       <Trash2 className="h-4 w-4" />
+                      Discard
                     </Button>
                   </div>
-                  <p className="text-xs text-muted-foreground mb-3">
-                    {new Date(diagram.createdAt).toLocaleDateString()}
-                  </p>
-                  <Button
-                    onClick={() => handleLoadDiagram(diagram)}
-                    variant="outline"
-                    size="sm"
-                    className="w-full"
-                  >
-                    Load
-                  </Button>
-                </div>
-              ))}
-            </div>
+                </AlertDescription>
+              </Alert>
+            )}
+            {library.diagrams.length > 0 && (
+              <DiagramLibrary
+                diagrams={library.diagrams}
+                currentDiagramId={currentDiagramId}
+                onLoad={handleLoadDiagram}
+                onDelete={handleDeleteDiagram}
+                onRestore={handleRestoreRevision}
+                onOrganize={handleOrganizeDiagram}
+                onIncludableChange={handleIncludableChange}
+              />
+            )}
           </CardContent>
         </Card>
       )}
@@ -320,63 +663,199 @@ export function PlantUMLEditor() {
       {/* Editor and Preview */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Editor */}
-        <Card className="shadow-sm">
+        <Card
+          className="shadow-sm relative"
+          onDragOverCapture={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDropCapture={handleDrop}
+        >
+          {isDraggingFile && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-background/90 pointer-events-none">
+              <div className="text-center">
+                <FolderOpen className="h-10 w-10 mx-auto mb-2 text-primary" />
+                <p className="font-medium">Drop PlantUML files to open them</p>
+                <p className="text-sm text-muted-foreground">{PLANTUML_FILE_EXTENSIONS.join(', ')}</p>
+              </div>
+            </div>
+          )}
           <CardHeader>
             <CardTitle>PlantUML Code Editor</CardTitle>
             <CardDescription>
-              Write your PlantUML diagram code here
+              Write your PlantUML diagram code here, or drop .puml files to open them
             </CardDescription>
           </CardHeader>
-          <CardContent>
-            <Textarea
+          <CardContent className="space-y-4">
+            <CodeEditor
+              ref={codeEditorRef}
               value={plantUMLCode}
-              onChange={(e) => setPlantUMLCode(e.target.value)}
-              className="min-h-[400px] font-mono text-sm"
+              language="plantuml"
+              onChange={setPlantUMLCode}
+              className="h-[400px]"
+              errorLine={syntaxError?.line}
               placeholder="Enter your PlantUML code here..."
             />
+            {syntaxError && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertTitle>
+                  {syntaxError instanceof PlantUMLIncludeError ? 'Include error' : 'Syntax error'}
+                  {syntaxError.line ? ` on line ${syntaxError.line}` : ''}
+                </AlertTitle>
+                <AlertDescription className="space-y-2">
+                  <p>{syntaxError.message}</p>
+                  {syntaxError.line && (
+                    <>
+                      <pre className="text-xs font-mono bg-destructive/10 rounded px-2 py-1 overflow-x-auto">
+                        {plantUMLCode.split('\n')[syntaxError.line - 1]}
+                      </pre>
+                      <Button variant="outline" size="sm" onClick={() => codeEditorRef.current?.focusLine(syntaxError.line!)}>
+                        Go to line {syntaxError.line}
+                      </Button>
+                    </>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
           </CardContent>
         </Card>
 
         {/* Preview */}
         <Card className="shadow-sm">
           <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <span>Live Preview</span>
-              {isRendering && (
-                <Badge variant="secondary" className="text-xs">
-                  Rendering...
-                </Badge>
-              )}
-            </CardTitle>
+            <div className="flex items-center justify-between">
+              <CardTitle className="flex items-center space-x-2">
+                <span>Live Preview</span>
+                {pages.length > 1 && (
+                  <Badge variant="outline" className="text-xs">
+                    Page {pageIndex + 1} of {pages.length}
+                  </Badge>
+                )}
+                {isRendering && (
+                  <Badge variant="secondary" className="text-xs">
+                    Rendering...
+                  </Badge>
+                )}
+              </CardTitle>
+              <button
+                type="button"
+                onClick={server.recheck}
+                className="flex items-center space-x-2 text-xs text-muted-foreground hover:text-foreground"
+                title={`${server.settings.baseUrl} · click to check again`}
+              >
+                <span className={`h-2 w-2 rounded-full ${HEALTH_LABELS[server.health].dot}`} />
+                <span>{HEALTH_LABELS[server.health].label}</span>
+              </button>
+            </div>
             <CardDescription>
-              Real-time diagram preview
+              Real-time diagram preview, one page per @startuml block or newpage
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="min-h-[400px] flex items-center justify-center border border-border rounded-lg bg-muted/20">
-              {diagramUrl ? (
-                <img
-                  src={diagramUrl}
-                  alt="PlantUML Diagram"
-                  className="max-w-full max-h-[400px] object-contain"
-                  onError={() => {
-                    toast({
-                      title: "Render Error",
-                      description: "Failed to render PlantUML diagram. Check your syntax.",
-                      variant: "destructive",
-                    });
-                  }}
-                />
-              ) : (
-                <div className="text-center text-muted-foreground">
-                  <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
-                  <p>Diagram will appear here</p>
-                </div>
-              )}
-            </div>
+            {diagramUrl && !renderError ? (
+              <div className="space-y-3">
+                <DiagramViewport key={pageIndex} className="h-[400px]">
+                  <img src={diagramUrl} alt={pages.length > 1 ? pages[pageIndex].label : 'PlantUML Diagram'} />
+                </DiagramViewport>
+                {pages.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPageIndex(index => index - 1)}
+                      disabled={pageIndex === 0}
+                      title="Previous page"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <div className="flex flex-1 gap-2 overflow-x-auto pb-1">
+                      {pages.map((page, index) => (
+                        <button
+                          key={page.url}
+                          type="button"
+                          onClick={() => setPageIndex(index)}
+                          title={page.label}
+                          className={`shrink-0 w-24 rounded-md border overflow-hidden text-left ${
+                            index === pageIndex ? 'border-primary ring-1 ring-primary' : 'border-border hover:border-muted-foreground'
+                          }`}
+                        >
+                          <img src={page.url} alt={page.label} className="h-16 w-full object-contain bg-white" />
+                          <span className="block truncate px-1.5 py-0.5 text-xs text-muted-foreground">{page.label}</span>
+                        </button>
+                      ))}
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPageIndex(index => index + 1)}
+                      disabled={pageIndex === pages.length - 1}
+                      title="Next page"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="h-[400px] flex items-center justify-center border border-border rounded-lg bg-muted/20">
+                {isServerUnreachable ? (
+                  <div className="max-w-sm text-center space-y-3 p-4">
+                    <ServerOff className="h-12 w-12 mx-auto text-muted-foreground/50" />
+                    <p className="font-medium">PlantUML server unreachable</p>
+                    <p className="text-sm text-muted-foreground">
+                      Could not reach {server.settings.baseUrl}. Start a local server with{' '}
+                      <code className="text-xs">docker run -d -p 8080:8080 plantuml/plantuml-server:jetty</code>{' '}
+                      or choose another one under Render Server.
+                    </p>
+                    <Button variant="outline" size="sm" onClick={handleRetryRender}>
+                      <RefreshCw className="h-4 w-4" />
+                      Retry
+                    </Button>
+                  </div>
+                ) : syntaxError ? (
+                  <div className="text-center text-muted-foreground p-4">
+                    <AlertCircle className="h-12 w-12 mx-auto mb-2 text-destructive/50" />
+                    <p className="font-medium text-destructive">Render Error</p>
+                    <p className="text-sm">Fix the highlighted line in the editor to update the preview.</p>
+                  </div>
+                ) : renderError ? (
+                  <div className="text-center text-muted-foreground p-4">
+                    <p className="font-medium text-destructive">Render Error</p>
+                    <p className="text-sm">{renderError.message}</p>
+                  </div>
+                ) : (
+                  <div className="text-center text-muted-foreground">
+                    <FileText className="h-12 w-12 mx-auto mb-2 opacity-50" />
+                    <p>Diagram will appear here</p>
+                  </div>
+                )}
+              </div>
+            )}
           </CardContent>
         </Card>
       </div>
+
+      <AlertDialog open={pendingDiscard !== null} onOpenChange={open => !open && setPendingDiscard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The editor has changes that were not saved{currentDiagramName.trim() ? ` to "${currentDiagramName.trim()}"` : ''}.
+              They will be lost if you continue.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                pendingDiscard?.();
+                setPendingDiscard(null);
+              }}
+            >
+              Discard Changes
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquare, Send, Square, ChevronLeft, ChevronRight, Undo2, RefreshCw } from "lucide-react";
+import { GenerationResult } from "@/lib/llm";
+
+export interface RefinementTurn {
+  id: string;
+  // The original prompt for the first turn, the follow-up instruction afterwards
+  instruction: string;
+  result: GenerationResult;
+  // The diagram as the model produced it, for resetting manual edits
+  generatedDiagram: string;
+  createdAt: string;
+}
+
+interface RefinementPanelProps {
+  turns: RefinementTurn[];
+  activeTurnId: string | null;
+  isRefining: boolean;
+  onRefine: (instruction: string) => void;
+  onSelectTurn: (id: string) => void;
+  onStop: () => void;
+}
+
+export function RefinementPanel({ turns, activeTurnId, isRefining, onRefine, onSelectTurn, onStop }: RefinementPanelProps) {
+  const [instruction, setInstruction] = useState('');
+  const activeIndex = turns.findIndex(turn => turn.id === activeTurnId);
+
+  const handleSend = () => {
+    if (!instruction.trim() || isRefining) return;
+    onRefine(instruction.trim());
+    setInstruction('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <Card className="shadow-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <MessageSquare className="h-5 w-5" />
+              <span>Refine Architecture</span>
+            </CardTitle>
+            <CardDescription>
+              Ask for changes to the current result
+            </CardDescription>
+          </div>
+          <div className="flex space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isRefining || activeIndex <= 0}
+              onClick={() => onSelectTurn(turns[activeIndex - 1].id)}
+              title="Step back"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={isRefining || activeIndex < 0 || activeIndex >= turns.length - 1}
+              onClick={() => onSelectTurn(turns[activeIndex + 1].id)}
+              title="Step forward"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="max-h-[300px] overflow-y-auto pr-1">
+          <div className="space-y-2">
+            {turns.map((turn, index) => (
+              <div
+                key={turn.id}
+                className={`p-3 rounded-lg border ${turn.id === activeTurnId ? 'border-primary/50 bg-accent' : 'border-border'}`}
+              >
+                <div className="flex items-center justify-between mb-1">
+                  <span className="text-xs text-muted-foreground">
+                    {index === 0 ? 'Initial generation' : `Refinement ${index}`} · {new Date(turn.createdAt).toLocaleTimeString()}
+                  </span>
+                  {turn.id === activeTurnId ? (
+                    <Badge variant="secondary" className="text-xs">Current</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isRefining}
+                      onClick={() => onSelectTurn(turn.id)}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Restore
+                    </Button>
+                  )}
+                </div>
+                <p className="text-sm line-clamp-3">{turn.instruction}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <Textarea
+          placeholder="e.g. 'Swap PostgreSQL for DynamoDB and add an event bus'"
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={isRefining}
+          className="min-h-[80px] resize-none"
+        />
+        {isRefining ? (
+          <div className="flex gap-2">
+            <Button disabled className="flex-1">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Applying Changes...
+            </Button>
+            <Button variant="outline" onClick={onStop}>
+              <Square className="h-4 w-4" />
+              Stop
+            </Button>
+          </div>
+        ) : (
+          <Button onClick={handleSend} disabled={!instruction.trim()} className="w-full">
+            <Send className="h-4 w-4" />
+            Apply Change
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Server, Info, RefreshCw, CheckCircle2, XCircle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { PlantUMLServerKind, PlantUMLServerSettings, SERVER_DEFAULTS, SERVER_OPTIONS, checkServerHealth } from "@/lib/plantuml";
+
+interface RenderServerSettingsProps {
+  settings: PlantUMLServerSettings;
+  onSettingsChange: (settings: PlantUMLServerSettings) => void;
+}
+
+export function RenderServerSettings({ settings, onSettingsChange }: RenderServerSettingsProps) {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<PlantUMLServerSettings>(settings);
+  const [testResult, setTestResult] = useState<'testing' | 'online' | 'offline' | null>(null);
+  const { toast } = useToast();
+
+  const selectedOption = SERVER_OPTIONS.find(option => option.id === draft.kind);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setDraft(settings);
+      setTestResult(null);
+    }
+    setIsDialogOpen(open);
+  };
+
+  const handleKindChange = (kind: PlantUMLServerKind) => {
+    setDraft(SERVER_DEFAULTS[kind]);
+    setTestResult(null);
+  };
+
+  const handleTest = async () => {
+    setTestResult('testing');
+    setTestResult(await checkServerHealth(draft) ? 'online' : 'offline');
+  };
+
+  const handleSave = () => {
+    if (!draft.baseUrl.trim()) {
+      toast({
+        title: "Missing Information",
+        description: "Server URL is required.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSettingsChange({ ...draft, baseUrl: draft.baseUrl.trim() });
+    setIsDialogOpen(false);
+
+    toast({
+      title: "Settings Saved",
+      description: `Rendering PlantUML with ${draft.baseUrl.trim()}.`,
+    });
+  };
+
+  return (
+    <Dialog open={isDialogOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Server className="h-4 w-4" />
+          Render Server
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[525px]">
+        <DialogHeader>
+          <DialogTitle>Render Server</DialogTitle>
+          <DialogDescription>
+            Diagrams are sent to this server for rendering. Keep it on your own network for private architectures.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="server-kind">Server Type</Label>
+            <Select value={draft.kind} onValueChange={(value) => handleKindChange(value as PlantUMLServerKind)}>
+              <SelectTrigger id="server-kind">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SERVER_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {selectedOption && (
+            <Alert>
+              <Info className="h-4 w-4" />
+              <AlertDescription>{selectedOption.description}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-2">
+            <Label htmlFor="server-url">Server URL</Label>
+            <div className="flex gap-2">
+              <Input
+                id="server-url"
+                value={draft.baseUrl}
+                onChange={(e) => {
+                  setDraft({ ...draft, baseUrl: e.target.value });
+                  setTestResult(null);
+                }}
+                placeholder={SERVER_DEFAULTS[draft.kind].baseUrl}
+              />
+              <Button variant="outline" onClick={handleTest} disabled={testResult === 'testing' || !draft.baseUrl.trim()}>
+                {testResult === 'testing' ? <RefreshCw className="h-4 w-4 animate-spin" /> : 'Test'}
+              </Button>
+            </div>
+            {testResult === 'online' && (
+              <p className="flex items-center gap-1 text-sm text-green-600">
+                <CheckCircle2 className="h-4 w-4" />
+                Server is reachable and rendering diagrams.
+              </p>
+            )}
+            {testResult === 'offline' && (
+              <p className="flex items-center gap-1 text-sm text-destructive">
+                <XCircle className="h-4 w-4" />
+                Could not render a test diagram. Check the URL and that the server allows requests from this page.
+              </p>
+            )}
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save Settings</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { Lock, Unlock, RefreshCw, Wand2 } from "lucide-react";
+
+interface SectionControlsProps {
+  heading: string;
+  isLocked: boolean;
+  isRegenerating: boolean;
+  disabled: boolean;
+  onToggleLock: () => void;
+  onRegenerate: (instruction: string) => void;
+}
+
+export function SectionControls({ heading, isLocked, isRegenerating, disabled, onToggleLock, onRegenerate }: SectionControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const handleRegenerate = () => {
+    onRegenerate(instruction.trim());
+    setInstruction('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="flex items-center space-x-1 shrink-0">
+      {isRegenerating ? (
+        <RefreshCw className="h-4 w-4 animate-spin text-primary" />
+      ) : (
+        <Popover open={isOpen} onOpenChange={setIsOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={disabled || isLocked}
+              className="opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+              title={isLocked ? 'Unlock the section to regenerate it' : 'Regenerate section'}
+            >
+              <Wand2 className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 space-y-3">
+            <p className="text-sm font-medium">Regenerate "{heading}"</p>
+            <Textarea
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Optional instruction, e.g. 'Cover OWASP Top 10 and secrets management'"
+              className="min-h-[80px] text-sm"
+            />
+            <Button size="sm" className="w-full" onClick={handleRegenerate}>
+              <RefreshCw className="h-4 w-4" />
+              Regenerate Section
+            </Button>
+          </PopoverContent>
+        </Popover>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        disabled={disabled}
+        onClick={onToggleLock}
+        className={isLocked ? 'text-primary' : 'opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity'}
+        title={isLocked ? 'Unlock section' : 'Lock section so later changes keep it'}
+      >
+        {isLocked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+      </Button>
+    </div>
+  );
+}
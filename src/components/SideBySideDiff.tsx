@@ -0,0 +1,31 @@
+import React from 'react';
+import { DiffLine, SideBySideRow } from "@/lib/diff";
+
+interface SideBySideDiffProps {
+  rows: SideBySideRow[];
+  className?: string;
+}
+
+const lineClass = (line: DiffLine | null) => {
+  if (!line) return 'bg-muted/30';
+  if (line.type === 'added') return 'bg-green-500/10 text-green-400';
+  if (line.type === 'removed') return 'bg-red-500/10 text-red-400';
+  return '';
+};
+
+export function SideBySideDiff({ rows, className = '' }: SideBySideDiffProps) {
+  return (
+    <div className={`grid grid-cols-2 border rounded-lg font-mono text-xs overflow-y-auto ${className}`}>
+      {rows.map((row, index) => (
+        <React.Fragment key={index}>
+          <div className={`px-3 py-0.5 whitespace-pre-wrap break-words border-r ${lineClass(row.left)}`}>
+            {row.left?.text || ' '}
+          </div>
+          <div className={`px-3 py-0.5 whitespace-pre-wrap break-words ${lineClass(row.right)}`}>
+            {row.right?.text || ' '}
+          </div>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Upload, FileText, Info } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { extractPlaceholders } from "@/lib/template";
 
 interface TemplateUploadProps {
   onTemplateUpload: (template: string) => void;
@@ -100,18 +101,6 @@ export function TemplateUpload({ onTemplateUpload }: TemplateUploadProps) {
     });
   };
 
-  const extractPlaceholders = (template: string) => {
-    const regex = /\{\{\s*([^}]+)\s*\}\}/g;
-    const placeholders = new Set<string>();
-    let match;
-    
-    while ((match = regex.exec(template)) !== null) {
-      placeholders.add(match[1].trim());
-    }
-    
-    return Array.from(placeholders);
-  };
-
   const placeholders = extractPlaceholders(templateContent);
 
   return (
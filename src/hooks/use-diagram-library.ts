@@ -0,0 +1,83 @@
+import * as React from "react"
+
+import {
+  Diagram,
+  StorageUsage,
+  UnreadableRecord,
+  deleteDiagram,
+  deleteRecords,
+  estimateStorage,
+  listDiagrams,
+  saveDiagram,
+  saveDiagrams,
+} from "@/lib/diagrams"
+
+export function useDiagramLibrary() {
+  const [diagrams, setDiagrams] = React.useState<Diagram[]>([])
+  const [unreadable, setUnreadable] = React.useState<UnreadableRecord[]>([])
+  const [usage, setUsage] = React.useState<StorageUsage | null>(null)
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<Error | null>(null)
+
+  const refreshUsage = React.useCallback(() => {
+    estimateStorage().then(setUsage)
+  }, [])
+
+  React.useEffect(() => {
+    listDiagrams()
+      .then((listing) => {
+        setDiagrams(listing.diagrams)
+        setUnreadable(listing.unreadable)
+      })
+      .catch((err: Error) => {
+        console.error("Error loading saved diagrams:", err)
+        setError(err)
+      })
+      .finally(() => {
+        setIsLoading(false)
+        refreshUsage()
+      })
+  }, [refreshUsage])
+
+  const save = React.useCallback(
+    async (diagram: Diagram) => {
+      await saveDiagram(diagram)
+      setDiagrams((previous) =>
+        previous.some((d) => d.id === diagram.id)
+          ? previous.map((d) => (d.id === diagram.id ? diagram : d))
+          : [...previous, diagram]
+      )
+      refreshUsage()
+    },
+    [refreshUsage]
+  )
+
+  const saveAll = React.useCallback(
+    async (saved: Diagram[]) => {
+      await saveDiagrams(saved)
+      setDiagrams((previous) => [
+        ...previous.map((d) => saved.find((s) => s.id === d.id) ?? d),
+        ...saved.filter((s) => !previous.some((d) => d.id === s.id)),
+      ])
+      refreshUsage()
+    },
+    [refreshUsage]
+  )
+
+  const remove = React.useCallback(
+    async (id: string) => {
+      await deleteDiagram(id)
+      setDiagrams((previous) => previous.filter((d) => d.id !== id))
+      refreshUsage()
+    },
+    [refreshUsage]
+  )
+
+  const discardUnreadable = React.useCallback(async () => {
+    await deleteRecords(unreadable.map((record) => record.id))
+    setUnreadable([])
+    refreshUsage()
+  }, [unreadable, refreshUsage])
+
+  return { diagrams, unreadable, usage, isLoading, error, save, saveAll, remove, discardUnreadable }
+}
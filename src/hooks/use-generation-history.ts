@@ -0,0 +1,68 @@
+import * as React from "react"
+
+import {
+  HistoryEntry,
+  deleteHistoryEntry,
+  listHistory,
+  saveHistoryEntry,
+  sortHistory,
+} from "@/lib/history"
+
+export function useGenerationHistory() {
+  const [entries, setEntries] = React.useState<HistoryEntry[]>([])
+  const [isLoading, setIsLoading] = React.useState(true)
+  const [error, setError] = React.useState<Error | null>(null)
+  // The stored entries as of the last finished write
+  const entriesRef = React.useRef<HistoryEntry[]>([])
+  // Loads and writes run one after another, so an update waits for the save
+  // of its entry and reads the result of the write before it
+  const queueRef = React.useRef<Promise<unknown>>(Promise.resolve())
+
+  const apply = React.useCallback((change: (previous: HistoryEntry[]) => HistoryEntry[]) => {
+    entriesRef.current = change(entriesRef.current)
+    setEntries(entriesRef.current)
+  }, [])
+
+  const enqueue = React.useCallback(<T>(task: () => Promise<T>) => {
+    const next = queueRef.current.catch(() => undefined).then(task)
+    queueRef.current = next
+    return next
+  }, [])
+
+  React.useEffect(() => {
+    enqueue(listHistory)
+      .then((loaded) => apply(() => loaded))
+      .catch((err: Error) => {
+        console.error("Error loading generation history:", err)
+        setError(err)
+      })
+      .finally(() => setIsLoading(false))
+  }, [apply, enqueue])
+
+  // State only changes once a write has succeeded, so the list never shows
+  // what the store does not hold
+  const save = React.useCallback((entry: HistoryEntry) => enqueue(async () => {
+    await saveHistoryEntry(entry)
+    apply((previous) =>
+      sortHistory([...previous.filter((e) => e.id !== entry.id), entry])
+    )
+  }), [apply, enqueue])
+
+  const update = React.useCallback(
+    (id: string, changes: Partial<Omit<HistoryEntry, "id">>) => enqueue(async () => {
+      const existing = entriesRef.current.find((e) => e.id === id)
+      if (!existing) throw new Error("The entry to update was never stored.")
+      const updated = { ...existing, ...changes }
+      await saveHistoryEntry(updated)
+      apply((previous) => previous.map((e) => (e.id === id ? updated : e)))
+    }),
+    [apply, enqueue]
+  )
+
+  const remove = React.useCallback((id: string) => enqueue(async () => {
+    await deleteHistoryEntry(id)
+    apply((previous) => previous.filter((e) => e.id !== id))
+  }), [apply, enqueue])
+
+  return { entries, isLoading, error, save, update, remove }
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import {
+  PlantUMLServerSettings,
+  ServerHealth,
+  checkServerHealth,
+  loadServerSettings,
+  saveServerSettings,
+} from "@/lib/plantuml"
+
+const RECHECK_INTERVAL = 60_000
+
+export function usePlantUMLServer() {
+  const [settings, setSettings] = React.useState<PlantUMLServerSettings>(loadServerSettings)
+  const [health, setHealth] = React.useState<ServerHealth>("checking")
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  // Periodic checks run quietly so the indicator does not flicker
+  const runCheck = React.useCallback(async (quiet: boolean) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    if (!quiet) setHealth("checking")
+    try {
+      const online = await checkServerHealth(settings, controller.signal)
+      setHealth(online ? "online" : "offline")
+    } catch {
+      // Superseded by a newer check
+    }
+  }, [settings])
+
+  const recheck = React.useCallback(() => runCheck(false), [runCheck])
+
+  React.useEffect(() => {
+    runCheck(false)
+    const timer = setInterval(() => runCheck(true), RECHECK_INTERVAL)
+    return () => {
+      clearInterval(timer)
+      controllerRef.current?.abort()
+    }
+  }, [runCheck])
+
+  const update = React.useCallback((next: PlantUMLServerSettings) => {
+    saveServerSettings(next)
+    setSettings(next)
+  }, [])
+
+  return { settings, health, update, recheck }
+}
@@ -0,0 +1,5 @@
+export * from './schema';
+export { buildArchitecture, detectDiagramType, formatIssuePath, titleFromHeading } from './parse';
+export type { ArchitectureParseResult, ArchitectureSource } from './parse';
+export { getSectionText, locateSections, parseSections, preserveSections, replaceSectionText, slugify } from './sections';
+export type { SectionLocation } from './sections';
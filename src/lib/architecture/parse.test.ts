@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildArchitecture, detectDiagramType, titleFromHeading } from './parse';
+
+const DOCUMENT = `# System Architecture: Shop
+
+## Overview
+An online shop.`;
+
+describe('buildArchitecture', () => {
+  it('takes the title from the heading without the generator prefix', () => {
+    const { architecture } = buildArchitecture({ document: DOCUMENT, diagrams: [] });
+    expect(architecture.title).toBe('Shop');
+  });
+
+  it('falls back to a default title when the heading has no name', () => {
+    const { architecture } = buildArchitecture({ document: '# System Architecture:\n\n## Overview\ntext', diagrams: [] });
+    expect(architecture.title).toBe('Untitled Architecture');
+  });
+
+  it('prefers the structured title and resolves relationships by component name', () => {
+    const structured = JSON.stringify({
+      title: 'Store',
+      components: [{ name: 'Web App' }, { name: 'Database' }],
+      relationships: [{ from: 'web app', to: 'Database' }],
+    });
+    const { architecture, issues } = buildArchitecture({ document: DOCUMENT, diagrams: [], structured });
+
+    expect(architecture.title).toBe('Store');
+    expect(architecture.relationships).toEqual([{ from: 'web-app', to: 'database' }]);
+    expect(issues).toEqual([]);
+  });
+
+  it('drops relationships to unknown components and reports them', () => {
+    const structured = JSON.stringify({
+      components: [{ name: 'API' }],
+      relationships: [{ from: 'api', to: 'cache' }],
+    });
+    const { architecture, issues } = buildArchitecture({ document: DOCUMENT, diagrams: [], structured });
+
+    expect(architecture.relationships).toEqual([]);
+    expect(issues).toContain('relationships[0].to: Unknown component "cache"');
+  });
+
+  it('derives the architecture from the document when the JSON is broken', () => {
+    const { architecture, issues } = buildArchitecture({ document: DOCUMENT, diagrams: [], structured: '{ nope' });
+
+    expect(architecture.title).toBe('Shop');
+    expect(issues).toContain('structured data: not valid JSON, derived from the document instead');
+  });
+
+  it('keeps diagrams with their detected type', () => {
+    const { architecture } = buildArchitecture({ document: DOCUMENT, diagrams: ['graph TB\n  A --> B'] });
+    expect(architecture.diagrams).toMatchObject([{ type: 'flowchart', source: 'graph TB\n  A --> B' }]);
+  });
+
+  it('keeps heading ids when the document has a preamble and an Introduction section', () => {
+    const { architecture } = buildArchitecture({ document: 'Preamble\n\n## Introduction\nBody', diagrams: [] });
+    expect(architecture.sections.map(section => section.id)).toEqual(['__preamble', 'introduction']);
+  });
+});
+
+describe('titleFromHeading', () => {
+  it('strips the prefix case-insensitively', () => {
+    expect(titleFromHeading('system architecture:  Payments ')).toBe('Payments');
+    expect(titleFromHeading('Payments')).toBe('Payments');
+  });
+});
+
+describe('detectDiagramType', () => {
+  it('recognises sequence diagrams', () => {
+    expect(detectDiagramType('sequenceDiagram\n  A->>B: hi')).toBe('sequence');
+  });
+});
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+import {
+  ARCHITECTURE_SCHEMA_VERSION,
+  Architecture,
+  ArchitectureDiagram,
+  ArchitectureSection,
+  DiagramType,
+  architectureSchema,
+  componentSchema,
+  relationshipSchema,
+  riskSchema,
+  technologySchema,
+} from './schema';
+import { parseSections, slugify } from './sections';
+
+export interface ArchitectureParseResult {
+  architecture: Architecture;
+  // Human-readable problems found in the model output, e.g. `risks[1].severity: ...`
+  issues: string[];
+}
+
+export interface ArchitectureSource {
+  document: string;
+  diagrams: string[];
+  // Raw contents of the ```json block the model was asked to append, if any
+  structured?: string;
+}
+
+type RawRecord = Record<string, unknown>;
+
+export const formatIssuePath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (formatted, part) => (typeof part === 'number' ? `${formatted}[${part}]` : formatted ? `${formatted}.${part}` : part),
+    ''
+  );
+
+export function detectDiagramType(source: string): DiagramType {
+  const keyword = source.trim().split(/\s/)[0] ?? '';
+  if (/^(graph|flowchart)$/i.test(keyword)) return 'flowchart';
+  if (/^sequenceDiagram$/i.test(keyword)) return 'sequence';
+  if (/^classDiagram/i.test(keyword)) return 'class';
+  if (/^stateDiagram/i.test(keyword)) return 'state';
+  if (/^erDiagram$/i.test(keyword)) return 'er';
+  if (/^C4/.test(keyword)) return 'c4';
+  return 'other';
+}
+
+const toDiagrams = (sources: string[]): ArchitectureDiagram[] =>
+  sources
+    .filter(source => source.trim())
+    .map((source, index) => ({
+      id: `diagram-${index + 1}`,
+      type: detectDiagramType(source),
+      source: source.trim(),
+    }));
+
+const bulletItems = (sections: ArchitectureSection[], heading: RegExp) =>
+  sections
+    .filter(section => heading.test(section.heading))
+    .flatMap(section => section.content.split('\n'))
+    .map(line => line.match(/^\s*(?:[-*+]|\d+\.)\s+(.+)$/)?.[1].replace(/\*\*/g, '').trim())
+    .filter((item): item is string => Boolean(item));
+
+const splitLabel = (item: string): [string, string | undefined] => {
+  const match = item.match(/^([^:]+?)\s*[:–—-]\s+(.+)$/);
+  return match ? [match[1].trim(), match[2].trim()] : [item, undefined];
+};
+
+// Fallback when the model gave no structured block: read the well-known
+// sections of the document.
+function deriveFromMarkdown(sections: ArchitectureSection[]): RawRecord {
+  return {
+    components: bulletItems(sections, /component|service/i).map(item => {
+      const [name, description] = splitLabel(item);
+      return { name, description };
+    }),
+    relationships: [],
+    technologyStack: bulletItems(sections, /technolog|stack/i).map(item => {
+      const [category, name] = splitLabel(item);
+      return name ? { category, name } : { category: 'General', name: category };
+    }),
+    risks: bulletItems(sections, /risk/i).map(item => ({ description: item })),
+    assumptions: bulletItems(sections, /assumption/i),
+  };
+}
+
+const asRecord = (value: unknown): RawRecord | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as RawRecord) : null;
+
+const asString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+function parseStructured(text: string, issues: string[]): RawRecord | null {
+  const attempts = [text, text.replace(/,\s*([}\]])/g, '$1')];
+  for (const attempt of attempts) {
+    try {
+      const parsed = asRecord(JSON.parse(attempt));
+      if (parsed) return parsed;
+      issues.push('structured data: expected a JSON object');
+      return null;
+    } catch {
+      // try the next, more lenient, attempt
+    }
+  }
+  issues.push('structured data: not valid JSON, derived from the document instead');
+  return null;
+}
+
+function ensureArray(value: unknown, path: string, issues: string[]): unknown[] {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string' || asRecord(value)) return [value];
+  issues.push(`${path}: expected a list`);
+  return [];
+}
+
+const SEVERITY_ALIASES: Record<string, string> = {
+  critical: 'high',
+  severe: 'high',
+  major: 'high',
+  moderate: 'medium',
+  med: 'medium',
+  minor: 'low',
+};
+
+// Coerce the shapes models commonly produce into the schema's shape.
+// Anything that cannot be coerced is left for zod to report.
+function repair(raw: RawRecord, issues: string[]): RawRecord {
+  const components = ensureArray(raw.components, 'components', issues).map(item => {
+    const record = asRecord(item) ?? { name: item };
+    const name = asString(record.name) ?? asString(record.id);
+    return { ...record, name, id: asString(record.id) ?? (name ? slugify(name) : undefined) };
+  });
+
+  const resolveComponent = (value: unknown) => {
+    const reference = asString(value);
+    if (!reference) return value;
+    const target = components.find(c => c.id === reference || c.name?.toLowerCase() === reference.toLowerCase());
+    return target?.id ?? reference;
+  };
+
+  const relationships = ensureArray(raw.relationships, 'relationships', issues).map(item => {
+    const record = asRecord(item) ?? {};
+    return {
+      ...record,
+      from: resolveComponent(record.from ?? record.source),
+      to: resolveComponent(record.to ?? record.target),
+    };
+  });
+
+  const technologyStack = ensureArray(raw.technologyStack, 'technologyStack', issues).map(item => {
+    if (typeof item === 'string') {
+      const [category, name] = splitLabel(item);
+      return name ? { category, name } : { category: 'General', name: category };
+    }
+    const record = asRecord(item) ?? {};
+    return {
+      ...record,
+      category: asString(record.category) ?? asString(record.layer) ?? 'General',
+      name: record.name ?? record.technology,
+    };
+  });
+
+  const risks = ensureArray(raw.risks, 'risks', issues).map((item, index) => {
+    const record = asRecord(item) ?? { description: item };
+    const severity = asString(record.severity)?.toLowerCase() ?? 'medium';
+    return {
+      ...record,
+      id: asString(record.id) ?? `risk-${index + 1}`,
+      severity: SEVERITY_ALIASES[severity] ?? severity,
+    };
+  });
+
+  return {
+    ...raw,
+    components,
+    relationships,
+    technologyStack,
+    risks,
+    assumptions: ensureArray(raw.assumptions, 'assumptions', issues),
+  };
+}
+
+// Keep the items of a list that satisfy the schema and report the rest.
+function validItems<T>(items: unknown[], schema: z.ZodType<T>, path: string, issues: string[]): T[] {
+  return items.flatMap((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) return [parsed.data];
+    parsed.error.issues.forEach(issue => {
+      issues.push(`${formatIssuePath([path, index, ...issue.path])}: ${issue.message}`);
+    });
+    return [];
+  });
+}
+
+const DEFAULT_TITLE = 'Untitled Architecture';
+
+// The title a top-level heading stands for, without the generator's
+// `System Architecture:` prefix
+export const titleFromHeading = (heading: string) => heading.replace(/^System Architecture:\s*/i, '').trim();
+
+const emptyArchitecture = (title: string): Architecture => ({
+  schemaVersion: ARCHITECTURE_SCHEMA_VERSION,
+  title: title || DEFAULT_TITLE,
+  sections: [],
+  components: [],
+  relationships: [],
+  technologyStack: [],
+  risks: [],
+  assumptions: [],
+  diagrams: [],
+});
+
+export function buildArchitecture({ document, diagrams, structured }: ArchitectureSource): ArchitectureParseResult {
+  const issues: string[] = [];
+  const sections = parseSections(document);
+  const raw = (structured && parseStructured(structured, issues)) || deriveFromMarkdown(sections);
+  const repaired = repair(raw, issues);
+
+  const titleSection = sections.find(section => section.level === 1);
+  const candidate = {
+    schemaVersion: ARCHITECTURE_SCHEMA_VERSION,
+    title: asString(repaired.title) || (titleSection && titleFromHeading(titleSection.heading)) || DEFAULT_TITLE,
+    sections,
+    components: validItems(repaired.components as unknown[], componentSchema, 'components', issues),
+    relationships: validItems(repaired.relationships as unknown[], relationshipSchema, 'relationships', issues),
+    technologyStack: validItems(repaired.technologyStack as unknown[], technologySchema, 'technologyStack', issues),
+    risks: validItems(repaired.risks as unknown[], riskSchema, 'risks', issues),
+    assumptions: validItems(repaired.assumptions as unknown[], z.string().min(1), 'assumptions', issues),
+    diagrams: toDiagrams(diagrams),
+  };
+
+  const parsed = architectureSchema.safeParse(candidate);
+  if (parsed.success) return { architecture: parsed.data, issues };
+
+  // Only the superRefine checks can fail at this point: report them, drop
+  // relationships that point at unknown components and make section ids unique.
+  const invalidRelationships = new Set<number>();
+  parsed.error.issues.forEach(issue => {
+    issues.push(`${formatIssuePath(issue.path)}: ${issue.message}`);
+    if (issue.path[0] === 'relationships') invalidRelationships.add(issue.path[1] as number);
+  });
+  if (parsed.error.issues.some(issue => issue.path[0] === 'sections')) {
+    candidate.sections = candidate.sections.map((section, index) => ({ ...section, id: `${section.id}-${index}` }));
+  }
+  candidate.relationships = candidate.relationships.filter((_, index) => !invalidRelationships.has(index));
+
+  // Anything still invalid is reported and reset to its empty default, so
+  // usable output never fails as a whole. Emptying components can strand
+  // relationships, hence the loop; the all-default architecture is valid.
+  let result = architectureSchema.safeParse(candidate);
+  for (let attempt = 0; !result.success && attempt < 3; attempt++) {
+    const fields = new Set(result.error.issues.map(issue => issue.path[0]));
+    result.error.issues.forEach(issue => {
+      issues.push(`${formatIssuePath(issue.path)}: ${issue.message}`);
+    });
+    Object.assign(candidate, Object.fromEntries(
+      Object.entries(emptyArchitecture(candidate.title)).filter(([field]) => fields.has(field))
+    ));
+    result = architectureSchema.safeParse(candidate);
+  }
+
+  return { architecture: result.success ? result.data : emptyArchitecture(DEFAULT_TITLE), issues };
+}
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+
+// Bump when the shape changes in a way older stored results cannot satisfy.
+export const ARCHITECTURE_SCHEMA_VERSION = 1;
+
+export const sectionSchema = z.object({
+  id: z.string().min(1),
+  heading: z.string().min(1),
+  level: z.number().int().min(1).max(6),
+  content: z.string(),
+});
+
+export const componentSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.string().optional(),
+  description: z.string().optional(),
+  technology: z.string().optional(),
+});
+
+export const relationshipSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  description: z.string().optional(),
+  protocol: z.string().optional(),
+});
+
+export const technologySchema = z.object({
+  category: z.string().min(1),
+  name: z.string().min(1),
+  purpose: z.string().optional(),
+});
+
+export const riskSeveritySchema = z.enum(['low', 'medium', 'high']);
+
+export const riskSchema = z.object({
+  id: z.string().min(1),
+  description: z.string().min(1),
+  severity: riskSeveritySchema,
+  mitigation: z.string().optional(),
+});
+
+export const diagramTypeSchema = z.enum(['flowchart', 'sequence', 'class', 'state', 'er', 'c4', 'other']);
+
+export const diagramSchema = z.object({
+  id: z.string().min(1),
+  type: diagramTypeSchema,
+  title: z.string().optional(),
+  source: z.string().min(1),
+});
+
+export const architectureSchema = z
+  .object({
+    schemaVersion: z.literal(ARCHITECTURE_SCHEMA_VERSION),
+    title: z.string().min(1),
+    sections: z.array(sectionSchema),
+    components: z.array(componentSchema),
+    relationships: z.array(relationshipSchema),
+    technologyStack: z.array(technologySchema),
+    risks: z.array(riskSchema),
+    assumptions: z.array(z.string().min(1)),
+    diagrams: z.array(diagramSchema),
+  })
+  .superRefine((architecture, ctx) => {
+    const componentIds = new Set(architecture.components.map(c => c.id));
+    architecture.relationships.forEach((relationship, index) => {
+      (['from', 'to'] as const).forEach(end => {
+        if (!componentIds.has(relationship[end])) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ['relationships', index, end],
+            message: `Unknown component "${relationship[end]}"`,
+          });
+        }
+      });
+    });
+
+    const sectionIds = new Set<string>();
+    architecture.sections.forEach((section, index) => {
+      if (sectionIds.has(section.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['sections', index, 'id'],
+          message: `Duplicate section id "${section.id}"`,
+        });
+      }
+      sectionIds.add(section.id);
+    });
+  });
+
+export type ArchitectureSection = z.infer<typeof sectionSchema>;
+export type ArchitectureComponent = z.infer<typeof componentSchema>;
+export type ArchitectureRelationship = z.infer<typeof relationshipSchema>;
+export type ArchitectureTechnology = z.infer<typeof technologySchema>;
+export type ArchitectureRisk = z.infer<typeof riskSchema>;
+export type ArchitectureDiagram = z.infer<typeof diagramSchema>;
+export type DiagramType = z.infer<typeof diagramTypeSchema>;
+export type Architecture = z.infer<typeof architectureSchema>;
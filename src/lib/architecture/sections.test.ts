@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { getSectionText, locateSections, parseSections, preserveSections, replaceSectionText } from './sections';
+
+const PREVIOUS = `# Shop
+
+## Parent
+old parent
+
+### Child A
+locked a
+
+### Child B
+old b
+
+## Next
+next text`;
+
+describe('locateSections', () => {
+  it('gives repeated headings unique ids and ignores headings in code fences', () => {
+    const sections = locateSections('## Notes\n```\n## Not a heading\n```\n## Notes');
+    expect(sections.map(section => section.id)).toEqual(['notes', 'notes-2']);
+  });
+
+  it('ends a section at the next heading of the same or higher level', () => {
+    const parent = locateSections(PREVIOUS).find(section => section.id === 'parent')!;
+    const lines = PREVIOUS.split('\n');
+    expect(lines[parent.bodyEnd]).toBe('### Child A');
+    expect(lines[parent.end]).toBe('## Next');
+  });
+});
+
+describe('parseSections', () => {
+  it('turns text before the first heading into an introduction', () => {
+    expect(parseSections('Intro text\n\n## Overview\nBody')).toEqual([
+      { id: '__preamble', heading: 'Introduction', level: 2, content: 'Intro text' },
+      { id: 'overview', heading: 'Overview', level: 2, content: 'Body' },
+    ]);
+  });
+
+  it('keeps a real Introduction heading apart from the preamble', () => {
+    const ids = parseSections('Preamble\n\n## Introduction\nBody').map(section => section.id);
+    expect(ids).toEqual(['__preamble', 'introduction']);
+  });
+});
+
+describe('replaceSectionText', () => {
+  it('replaces a section together with its subsections', () => {
+    const replaced = replaceSectionText(PREVIOUS, 'parent', 'new parent');
+    expect(getSectionText(replaced, 'parent')).toBe('new parent');
+    expect(locateSections(replaced).map(section => section.id)).toEqual(['shop', 'parent', 'next']);
+  });
+});
+
+describe('preserveSections', () => {
+  it('keeps a locked section that survived the rewrite in place', () => {
+    const next = PREVIOUS.replace('old b', 'new b').replace('locked a', 'rewritten a');
+    const preserved = preserveSections(PREVIOUS, next, ['child-a']);
+
+    expect(getSectionText(preserved, 'child-a')).toBe('locked a');
+    expect(getSectionText(preserved, 'child-b')).toBe('new b');
+  });
+
+  it('puts a locked subsection back under its regenerated parent', () => {
+    const next = '# Shop\n\n## Parent\nnew parent\n\n### Child B\nnew b\n\n## Next\nnext text';
+    const preserved = preserveSections(PREVIOUS, next, ['child-a']);
+
+    expect(locateSections(preserved).map(section => section.id)).toEqual(['shop', 'parent', 'child-a', 'child-b', 'next']);
+    expect(getSectionText(preserved, 'child-a')).toBe('locked a');
+  });
+
+  it('keeps the original order of several restored subsections', () => {
+    const next = '# Shop\n\n## Parent\nnew parent only\n\n## Next\nnext text';
+    const preserved = preserveSections(PREVIOUS, next, ['child-b', 'child-a']);
+
+    expect(locateSections(preserved).map(section => section.id)).toEqual(['shop', 'parent', 'child-a', 'child-b', 'next']);
+  });
+
+  it('appends a locked section whose place is gone', () => {
+    const preserved = preserveSections(PREVIOUS, '# Other\n\n## Elsewhere\nx', ['child-b']);
+    expect(preserved.endsWith('### Child B\nold b')).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+import { ArchitectureSection } from './schema';
+
+export interface SectionLocation {
+  id: string;
+  heading: string;
+  level: number;
+  // Line index of the heading
+  line: number;
+  // First line after the section's own text, i.e. the next heading of any level
+  bodyEnd: number;
+  // First line after the section including its subsections
+  end: number;
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'item';
+
+// Find every markdown heading outside code fences, with stable ids derived
+// from the heading text (repeated headings get a numeric suffix).
+export function locateSections(markdown: string): SectionLocation[] {
+  const lines = markdown.split('\n');
+  const sections: SectionLocation[] = [];
+  const usedIds = new Map<string, number>();
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (line.trimStart().startsWith('```')) inFence = !inFence;
+    const match = !inFence ? line.match(HEADING) : null;
+    if (!match) return;
+
+    const heading = match[2];
+    const base = slugify(heading);
+    const seen = usedIds.get(base) ?? 0;
+    usedIds.set(base, seen + 1);
+
+    sections.push({
+      id: seen ? `${base}-${seen + 1}` : base,
+      heading,
+      level: match[1].length,
+      line: index,
+      bodyEnd: lines.length,
+      end: lines.length,
+    });
+  });
+
+  sections.forEach((section, index) => {
+    const next = sections[index + 1];
+    if (next) section.bodyEnd = next.line;
+    const closing = sections.slice(index + 1).find(other => other.level <= section.level);
+    if (closing) section.end = closing.line;
+  });
+
+  return sections;
+}
+
+// Id of the text before the first heading. Slugs only contain lowercase
+// letters, digits and dashes, so no heading can take it.
+const PREAMBLE_ID = '__preamble';
+
+// Split markdown into heading-delimited sections; text before the first
+// heading becomes an "Introduction" section.
+export function parseSections(markdown: string): ArchitectureSection[] {
+  const lines = markdown.split('\n');
+  const located = locateSections(markdown);
+  const sections = located.map(({ id, heading, level, line, bodyEnd }) => ({
+    id,
+    heading,
+    level,
+    content: lines.slice(line + 1, bodyEnd).join('\n').trim(),
+  }));
+
+  const intro = lines.slice(0, located[0]?.line ?? lines.length).join('\n').trim();
+  return intro ? [{ id: PREAMBLE_ID, heading: 'Introduction', level: 2, content: intro }, ...sections] : sections;
+}
+
+// The text under a heading, including its subsections, or null if there is no such section.
+export function getSectionText(markdown: string, id: string): string | null {
+  const section = locateSections(markdown).find(s => s.id === id);
+  if (!section) return null;
+  return markdown.split('\n').slice(section.line + 1, section.end).join('\n').trim();
+}
+
+export function replaceSectionText(markdown: string, id: string, text: string): string {
+  const section = locateSections(markdown).find(s => s.id === id);
+  if (!section) return markdown;
+
+  const lines = markdown.split('\n');
+  const body = text.trim() ? [text.trim(), ''] : [''];
+  lines.splice(section.line + 1, section.end - section.line - 1, ...body);
+  return lines.join('\n').trimEnd();
+}
+
+// Where a section that is missing from `document` belongs: after the nearest
+// earlier sibling still in it, else directly under its parent, as located in
+// `document`. Null when neither survived.
+function insertionLine(document: string, previousSections: SectionLocation[], original: SectionLocation) {
+  const current = locateSections(document);
+  const earlier = previousSections.filter(s => s.line < original.line && s.level <= original.level).reverse();
+
+  for (const candidate of earlier) {
+    const match = current.find(s => s.id === candidate.id);
+    // Right under the parent's own text keeps it ahead of later siblings
+    if (match) return candidate.level < original.level ? match.bodyEnd : match.end;
+    // Past the parent, anything earlier belongs to another branch
+    if (candidate.level < original.level) return null;
+  }
+  return null;
+}
+
+// Copy the given sections from `previous` into `next`, so locked sections
+// survive a rewrite. Sections the rewrite dropped are put back where they
+// were, e.g. a locked subsection under its regenerated parent, or appended
+// when that place is gone too.
+export function preserveSections(previous: string, next: string, ids: string[]): string {
+  const previousSections = locateSections(previous);
+  const previousLines = previous.split('\n');
+
+  return ids.reduce((document, id) => {
+    const original = previousSections.find(s => s.id === id);
+    if (!original) return document;
+
+    const text = getSectionText(previous, id) ?? '';
+    if (locateSections(document).some(s => s.id === id)) {
+      return replaceSectionText(document, id, text);
+    }
+
+    const block = previousLines.slice(original.line, original.end).join('\n').trim();
+    const at = insertionLine(document, previousSections, original);
+    if (at === null) return `${document.trimEnd()}\n\n${block}`;
+
+    const lines = document.split('\n');
+    const before = lines.slice(0, at).join('\n').trimEnd();
+    const after = lines.slice(at).join('\n').trim();
+    return [before, block, after].filter(Boolean).join('\n\n');
+  }, next);
+}
@@ -0,0 +1,89 @@
+const DB_NAME = 'sad-generator';
+
+type Migration = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+// One entry per schema version, applied in order when the database is
+// opened by a newer build. Never edit a shipped migration; append a new one.
+const MIGRATIONS: Migration[] = [
+  // v1: generation history
+  db => {
+    const generations = db.createObjectStore('generations', { keyPath: 'id' });
+    generations.createIndex('createdAt', 'createdAt');
+  },
+  // v2: saved PlantUML diagrams, previously one localStorage key
+  db => {
+    const diagrams = db.createObjectStore('diagrams', { keyPath: 'id' });
+    diagrams.createIndex('updatedAt', 'updatedAt');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+export type StoreName = 'generations' | 'diagrams';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      let isBlocked = false;
+
+      request.onupgradeneeded = (event) => {
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, transaction);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Opened after all once the other tab let go; nobody is waiting now
+        if (isBlocked) {
+          db.close();
+          return;
+        }
+        // Let a newer build in another tab upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      // Another tab still holds the older version open, so the upgrade would
+      // wait for it indefinitely
+      request.onblocked = () => {
+        isBlocked = true;
+        databasePromise = null;
+        reject(new Error('The database is in use by an older version of this app. Close its other tabs and reload.'));
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run `action` against one object store and resolve once the transaction commits.
+export async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BUNDLE_FORMAT, BundleError, createBundle, parseBundle, planImport } from './diagram-bundle';
+import type { Diagram } from './diagrams';
+
+const diagram = (id: string, name: string, content = '@startuml\nA -> B\n@enduml'): Diagram => ({
+  id,
+  name,
+  content,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-02T00:00:00.000Z',
+  revisions: [
+    { id: `${id}-r1`, content: 'old', createdAt: '2024-01-01T00:00:00.000Z' },
+    { id: `${id}-r2`, content, createdAt: '2024-01-02T00:00:00.000Z' },
+  ],
+  tags: [],
+});
+
+describe('createBundle', () => {
+  it('keeps only the latest revision when asked to', () => {
+    const bundle = createBundle([diagram('a', 'Flow')], { includeRevisions: false });
+    expect(bundle.format).toBe(BUNDLE_FORMAT);
+    expect(bundle.diagrams[0].revisions.map(revision => revision.id)).toEqual(['a-r2']);
+  });
+});
+
+describe('parseBundle', () => {
+  it('round-trips a bundle and normalizes folders and tags', () => {
+    const bundle = createBundle([{ ...diagram('a', 'Flow'), folder: ' Team ', tags: ['Web', 'web ', 'api'] }]);
+    const { diagrams, invalid } = parseBundle(JSON.stringify(bundle));
+
+    expect(invalid).toBe(0);
+    expect(diagrams[0].folder).toBe('Team');
+    expect(diagrams[0].tags).toEqual(['api', 'web']);
+  });
+
+  it('counts diagrams that fail validation', () => {
+    const bundle = { ...createBundle([diagram('a', 'Flow')]), diagrams: [diagram('a', 'Flow'), { name: 'no id' }] };
+    expect(parseBundle(JSON.stringify(bundle)).invalid).toBe(1);
+  });
+
+  it.each([
+    ['not json', 'The file is not valid JSON.'],
+    ['{"format":"other"}', 'The file is not a diagram library export.'],
+    [`{"format":"${BUNDLE_FORMAT}","version":99,"diagrams":[]}`, 'The file was exported by a newer version of this app.'],
+    [`{"format":"${BUNDLE_FORMAT}","version":1}`, 'The file does not contain a list of diagrams.'],
+  ])('rejects %s', (text, message) => {
+    expect(() => parseBundle(text)).toThrow(BundleError);
+    expect(() => parseBundle(text)).toThrow(message);
+  });
+});
+
+describe('planImport', () => {
+  const existing = [diagram('saved', 'Flow'), diagram('other', 'Flow (2)')];
+
+  it('gives new diagrams fresh ids even when the id is taken', () => {
+    const plan = planImport(existing, [diagram('saved', 'Sequence')], 'skip');
+    expect(plan.toSave).toHaveLength(1);
+    expect(plan.toSave[0].id).not.toBe('saved');
+  });
+
+  it('skips diagrams whose name is taken, ignoring case', () => {
+    const plan = planImport(existing, [diagram('x', 'flow')], 'skip');
+    expect(plan).toMatchObject({ toSave: [], skipped: ['flow'] });
+  });
+
+  it('renames to the first free copy name', () => {
+    const plan = planImport(existing, [diagram('x', 'Flow')], 'rename');
+    expect(plan.renamed).toEqual([{ from: 'Flow', to: 'Flow (3)' }]);
+    expect(plan.toSave[0].name).toBe('Flow (3)');
+  });
+
+  it('overwrites the saved diagram under its id', () => {
+    const plan = planImport(existing, [diagram('x', 'FLOW', 'new')], 'overwrite');
+    expect(plan.overwritten).toEqual(['FLOW']);
+    expect(plan.toSave[0]).toMatchObject({ id: 'saved', content: 'new' });
+  });
+
+  it('renames rather than overwrites a duplicate within the same bundle', () => {
+    const plan = planImport([], [diagram('x', 'Flow'), diagram('y', 'flow')], 'overwrite');
+    expect(plan.toSave.map(saved => saved.name)).toEqual(['Flow', 'flow (2)']);
+    expect(plan.overwritten).toEqual([]);
+  });
+});
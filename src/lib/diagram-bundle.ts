@@ -0,0 +1,112 @@
+import { Diagram, newId, parseDiagram } from '@/lib/diagrams';
+
+// A library export: one JSON file with every selected diagram, its folder,
+// tags and revisions.
+export const BUNDLE_FORMAT = 'plantuml-diagram-library';
+export const BUNDLE_VERSION = 1;
+
+export interface DiagramBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  diagrams: Diagram[];
+}
+
+export type CollisionStrategy = 'skip' | 'rename' | 'overwrite';
+
+export const COLLISION_OPTIONS: { value: CollisionStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep the saved diagram and leave the imported one out' },
+  { value: 'rename', label: 'Keep both', description: 'Import under a new name such as "Name (2)"' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace the saved diagram with the imported one' },
+];
+
+export interface ImportPlan {
+  toSave: Diagram[];
+  skipped: string[];
+  renamed: { from: string; to: string }[];
+  overwritten: string[];
+}
+
+export class BundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BundleError';
+  }
+}
+
+const nameKey = (name: string) => name.trim().toLowerCase();
+
+export function createBundle(diagrams: Diagram[], { includeRevisions = true } = {}): DiagramBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    diagrams: includeRevisions
+      ? diagrams
+      : diagrams.map(diagram => ({ ...diagram, revisions: diagram.revisions.slice(-1) })),
+  };
+}
+
+// Read a bundle file. Throws BundleError when the file as a whole is not a
+// bundle this build understands; single diagrams that fail validation are
+// counted and left out.
+export function parseBundle(text: string): { diagrams: Diagram[]; invalid: number } {
+  let data: Partial<DiagramBundle>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BundleError('The file is not valid JSON.');
+  }
+
+  if (!data || typeof data !== 'object' || data.format !== BUNDLE_FORMAT) {
+    throw new BundleError('The file is not a diagram library export.');
+  }
+  if (typeof data.version !== 'number' || data.version > BUNDLE_VERSION) {
+    throw new BundleError('The file was exported by a newer version of this app.');
+  }
+  if (!Array.isArray(data.diagrams)) {
+    throw new BundleError('The file does not contain a list of diagrams.');
+  }
+
+  const diagrams = data.diagrams.map(parseDiagram).filter((diagram): diagram is Diagram => diagram !== null);
+  return { diagrams, invalid: data.diagrams.length - diagrams.length };
+}
+
+export function findCollisions(existing: Diagram[], incoming: Diagram[]) {
+  const names = new Set(existing.map(diagram => nameKey(diagram.name)));
+  return incoming.filter(diagram => names.has(nameKey(diagram.name)));
+}
+
+// Decide what to write for each incoming diagram. Names collide
+// case-insensitively, including between diagrams in the same bundle.
+// Imported diagrams get fresh ids unless they overwrite a saved one, so an
+// id shared with an unrelated saved diagram never replaces it.
+export function planImport(existing: Diagram[], incoming: Diagram[], strategy: CollisionStrategy): ImportPlan {
+  const byName = new Map(existing.map(diagram => [nameKey(diagram.name), diagram]));
+  const plan: ImportPlan = { toSave: [], skipped: [], renamed: [], overwritten: [] };
+
+  incoming.forEach(diagram => {
+    const match = byName.get(nameKey(diagram.name));
+    let saved: Diagram;
+
+    if (!match) {
+      saved = { ...diagram, id: newId() };
+    } else if (strategy === 'skip') {
+      plan.skipped.push(diagram.name);
+      return;
+    } else if (strategy === 'overwrite' && existing.includes(match)) {
+      saved = { ...diagram, id: match.id };
+      plan.overwritten.push(diagram.name);
+    } else {
+      let copy = 2;
+      while (byName.has(nameKey(`${diagram.name} (${copy})`))) copy++;
+      saved = { ...diagram, id: newId(), name: `${diagram.name} (${copy})` };
+      plan.renamed.push({ from: diagram.name, to: saved.name });
+    }
+
+    byName.set(nameKey(saved.name), saved);
+    plan.toSave.push(saved);
+  });
+
+  return plan;
+}
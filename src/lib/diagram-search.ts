@@ -0,0 +1,93 @@
+import { Diagram } from '@/lib/diagrams';
+
+export type DiagramSort = 'name' | 'created' | 'updated';
+
+export const SORT_OPTIONS: { value: DiagramSort; label: string }[] = [
+  { value: 'updated', label: 'Last updated' },
+  { value: 'created', label: 'Date created' },
+  { value: 'name', label: 'Name' },
+];
+
+// Folder filter values besides folder names. The leading space keeps them
+// apart from real folder names, which are always trimmed.
+export const ALL_FOLDERS = ' all';
+export const UNFILED = ' unfiled';
+
+export interface DiagramFilter {
+  query: string;
+  folder: string;
+  tags: string[];
+  sort: DiagramSort;
+}
+
+export interface SourceHit {
+  // 1-based
+  line: number;
+  text: string;
+}
+
+export interface DiagramMatch {
+  diagram: Diagram;
+  // Source lines containing a search term; empty when only the name matched
+  hits: SourceHit[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+const MAX_HITS = 3;
+
+// Tags are compared case-insensitively, so store them in one form
+export const normalizeTags = (tags: string[]) =>
+  Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))).sort();
+
+export const listFolders = (diagrams: Diagram[]) =>
+  Array.from(new Set(diagrams.map(diagram => diagram.folder).filter((folder): folder is string => !!folder)))
+    .sort((a, b) => a.localeCompare(b));
+
+export const listTags = (diagrams: Diagram[]) => normalizeTags(diagrams.flatMap(diagram => diagram.tags));
+
+export const searchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const compare: Record<DiagramSort, (a: Diagram, b: Diagram) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base', numeric: true }),
+  created: (a, b) => b.createdAt.localeCompare(a.createdAt),
+  updated: (a, b) => b.updatedAt.localeCompare(a.updatedAt),
+};
+
+// Every search term has to appear somewhere in the name, tags or source.
+// Source lines with hits are returned so the results can show them.
+export function filterDiagrams(diagrams: Diagram[], { query, folder, tags, sort }: DiagramFilter): DiagramMatch[] {
+  const terms = searchTerms(query);
+
+  return diagrams
+    .filter(diagram => folder === ALL_FOLDERS || (diagram.folder ?? UNFILED) === folder)
+    .filter(diagram => tags.every(tag => diagram.tags.includes(tag)))
+    .flatMap((diagram): DiagramMatch[] => {
+      if (!terms.length) return [{ diagram, hits: [] }];
+
+      const haystack = [diagram.name, ...diagram.tags, diagram.content].join('\n').toLowerCase();
+      if (!terms.every(term => haystack.includes(term))) return [];
+
+      const hits = diagram.content
+        .split('\n')
+        .map((text, index) => ({ line: index + 1, text }))
+        .filter(({ text }) => terms.some(term => text.toLowerCase().includes(term)))
+        .slice(0, MAX_HITS);
+      return [{ diagram, hits }];
+    })
+    .sort((a, b) => compare[sort](a.diagram, b.diagram));
+}
+
+// Split text into runs so matches of any term can be wrapped in <mark>
+export function highlightSegments(text: string, terms: string[]): TextSegment[] {
+  if (!terms.length) return [{ text, match: false }];
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(`(${escaped.join('|')})`, 'gi');
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
@@ -0,0 +1,211 @@
+import { withStore } from '@/lib/db';
+import { normalizeTags } from '@/lib/diagram-search';
+
+// Saved PlantUML diagrams. Each save of a loaded diagram adds a revision
+// instead of a copy, so the library keeps one card per diagram.
+
+export interface DiagramRevision {
+  id: string;
+  content: string;
+  createdAt: string;
+  message?: string;
+}
+
+export interface Diagram {
+  id: string;
+  name: string;
+  // Always the content of the newest revision
+  content: string;
+  createdAt: string;
+  updatedAt: string;
+  // Oldest first
+  revisions: DiagramRevision[];
+  // Folder name; unfiled when empty
+  folder?: string;
+  tags: string[];
+  // Other diagrams may pull this one in with `!include <name>`
+  includable?: boolean;
+}
+
+// A stored record that is not a usable diagram, kept so it can be
+// downloaded before it is discarded
+export interface UnreadableRecord {
+  id: string;
+  raw: unknown;
+}
+
+export interface DiagramListing {
+  diagrams: Diagram[];
+  unreadable: UnreadableRecord[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+// Where the library lived before it moved to IndexedDB
+const LEGACY_STORAGE_KEY = 'plantuml-diagrams';
+
+export const newId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isDate = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value));
+
+const parseRevision = (raw: unknown): DiagramRevision | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const revision = raw as Partial<DiagramRevision>;
+  if (typeof revision.content !== 'string' || !isDate(revision.createdAt)) return null;
+  return {
+    id: typeof revision.id === 'string' ? revision.id : newId(),
+    content: revision.content,
+    createdAt: revision.createdAt,
+    message: typeof revision.message === 'string' ? revision.message : undefined,
+  };
+};
+
+// Validate a stored record, salvaging what it can: missing names, dates or
+// revisions are filled in, and content falls back to the newest revision.
+// Diagrams saved before revisions existed come through here too.
+export function parseDiagram(raw: unknown): Diagram | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const record = raw as Partial<Diagram>;
+  if (typeof record.id !== 'string') return null;
+
+  const revisions = (Array.isArray(record.revisions) ? record.revisions : [])
+    .map(parseRevision)
+    .filter((revision): revision is DiagramRevision => revision !== null);
+  const content = typeof record.content === 'string' ? record.content : revisions[revisions.length - 1]?.content;
+  if (content === undefined) return null;
+
+  const createdAt = isDate(record.createdAt) ? record.createdAt : revisions[0]?.createdAt ?? new Date().toISOString();
+  if (revisions[revisions.length - 1]?.content !== content) {
+    revisions.push({ id: newId(), content, createdAt: isDate(record.updatedAt) ? record.updatedAt : createdAt });
+  }
+
+  return {
+    id: record.id,
+    name: typeof record.name === 'string' && record.name.trim() ? record.name : 'Untitled diagram',
+    content,
+    createdAt,
+    updatedAt: isDate(record.updatedAt) ? record.updatedAt : revisions[revisions.length - 1].createdAt,
+    revisions,
+    // Trimmed like the organizer does, which also keeps imported folders clear
+    // of the filter's sentinel values
+    folder: typeof record.folder === 'string' && record.folder.trim() ? record.folder.trim() : undefined,
+    tags: Array.isArray(record.tags) ? normalizeTags(record.tags.filter((tag): tag is string => typeof tag === 'string')) : [],
+    includable: record.includable === true || undefined,
+  };
+}
+
+const putRecords = (records: { id: string }[]) =>
+  withStore('diagrams', 'readwrite', store => {
+    let request!: IDBRequest<IDBValidKey>;
+    records.forEach(record => {
+      request = store.put(record);
+    });
+    return request;
+  });
+
+// Copy diagrams from the old localStorage key into IndexedDB, once. Entries
+// that cannot be read are stored as they are so nothing is lost on the way;
+// listing reports them as unreadable.
+async function migrateLegacyDiagrams() {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (saved === null) return;
+
+  let entries: unknown[];
+  try {
+    const parsed = JSON.parse(saved);
+    entries = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    entries = [saved];
+  }
+
+  const records = entries.map((entry, index) => {
+    const diagram = parseDiagram(entry);
+    return diagram ?? { id: `recovered-${Date.now()}-${index}`, raw: entry };
+  });
+  if (records.length) await putRecords(records);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+// Oldest first, the order the library has always shown them in
+export async function listDiagrams(): Promise<DiagramListing> {
+  await migrateLegacyDiagrams();
+  const records = await withStore<unknown[]>('diagrams', 'readonly', store => store.getAll());
+
+  const listing: DiagramListing = { diagrams: [], unreadable: [] };
+  records.forEach(record => {
+    const diagram = parseDiagram(record);
+    if (diagram) listing.diagrams.push(diagram);
+    else listing.unreadable.push({ id: (record as { id: string }).id, raw: record });
+  });
+  listing.diagrams.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  return listing;
+}
+
+export function saveDiagram(diagram: Diagram): Promise<IDBValidKey> {
+  return withStore('diagrams', 'readwrite', store => store.put(diagram));
+}
+
+// Several diagrams in one transaction, so an import lands completely or not at all
+export async function saveDiagrams(diagrams: Diagram[]) {
+  if (diagrams.length) await putRecords(diagrams);
+}
+
+export function deleteDiagram(id: string): Promise<undefined> {
+  return withStore('diagrams', 'readwrite', store => store.delete(id));
+}
+
+export async function deleteRecords(ids: string[]) {
+  await Promise.all(ids.map(deleteDiagram));
+}
+
+// How much of the browser's storage allowance this site uses, where the
+// browser reports it
+export async function estimateStorage(): Promise<StorageUsage | null> {
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    return estimate?.quota ? { usage: estimate.usage ?? 0, quota: estimate.quota } : null;
+  } catch {
+    return null;
+  }
+}
+
+export const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export function createDiagram(name: string, content: string, message?: string): Diagram {
+  const now = new Date().toISOString();
+  return {
+    id: newId(),
+    name,
+    content,
+    createdAt: now,
+    updatedAt: now,
+    revisions: [{ id: newId(), content, createdAt: now, message }],
+    tags: [],
+  };
+}
+
+// Record new content. Saving unchanged content only renames, so repeated
+// saves do not pile up identical revisions.
+export function addRevision(diagram: Diagram, name: string, content: string, message?: string): Diagram {
+  if (content === diagram.content) return name === diagram.name ? diagram : { ...diagram, name };
+  const now = new Date().toISOString();
+  return {
+    ...diagram,
+    name,
+    content,
+    updatedAt: now,
+    revisions: [...diagram.revisions, { id: newId(), content, createdAt: now, message }],
+  };
+}
+
+// Restoring is itself a revision, so nothing after the restored one is lost
+export function restoreRevision(diagram: Diagram, revisionId: string): Diagram {
+  const revision = diagram.revisions.find(r => r.id === revisionId);
+  if (!revision) return diagram;
+  const label = new Date(revision.createdAt).toLocaleString();
+  return addRevision(diagram, diagram.name, revision.content, `Restored revision from ${label}`);
+}
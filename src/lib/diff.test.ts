@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, diffSections, toSideBySide } from './diff';
+
+describe('diffLines', () => {
+  it('marks removed and added lines around the common ones', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'equal', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'equal', text: 'c' },
+    ]);
+  });
+});
+
+describe('toSideBySide', () => {
+  it('pairs replaced lines and pads uneven runs', () => {
+    const rows = toSideBySide(diffLines('a\nb\nc', 'a\nx\ny\nc'));
+    expect(rows.map(row => [row.left?.text ?? null, row.right?.text ?? null])).toEqual([
+      ['a', 'a'],
+      ['b', 'x'],
+      [null, 'y'],
+      ['c', 'c'],
+    ]);
+  });
+});
+
+describe('diffSections', () => {
+  it('classifies each section by id', () => {
+    const before = '## Overview\nold\n\n## Risks\nsame\n\n## Costs\ngone';
+    const after = '## Overview\nnew\n\n## Risks\nsame\n\n## Security\nadded';
+
+    expect(diffSections(before, after)).toEqual([
+      { id: 'overview', heading: 'Overview', change: 'modified' },
+      { id: 'risks', heading: 'Risks', change: 'unchanged' },
+      { id: 'security', heading: 'Security', change: 'added' },
+      { id: 'costs', heading: 'Costs', change: 'removed' },
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+import { parseSections } from '@/lib/architecture';
+
+export type DiffType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffType;
+  text: string;
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+export type SectionChange = 'added' | 'removed' | 'modified' | 'unchanged';
+
+export interface SectionDiff {
+  id: string;
+  heading: string;
+  change: SectionChange;
+}
+
+// Longest-common-subsequence line diff. Documents are a few hundred lines,
+// so the quadratic table is fine.
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'equal', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+// Pair removed and added runs so replaced lines sit next to each other.
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'equal') {
+      (lines[index].type === 'removed' ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null });
+    }
+  }
+
+  return rows;
+}
+
+export function diffSections(before: string, after: string): SectionDiff[] {
+  const previous = parseSections(before);
+  const next = parseSections(after);
+  const previousById = new Map(previous.map(section => [section.id, section]));
+  const nextIds = new Set(next.map(section => section.id));
+
+  const diffs: SectionDiff[] = next.map(section => {
+    const old = previousById.get(section.id);
+    const change: SectionChange = !old ? 'added' : old.content === section.content ? 'unchanged' : 'modified';
+    return { id: section.id, heading: section.heading, change };
+  });
+
+  previous
+    .filter(section => !nextIds.has(section.id))
+    .forEach(section => diffs.push({ id: section.id, heading: section.heading, change: 'removed' }));
+
+  return diffs;
+}
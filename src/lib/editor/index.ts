@@ -0,0 +1,79 @@
+import { Extension, RangeSetBuilder, StateEffect, StateField } from '@codemirror/state';
+import { Decoration, DecorationSet, EditorView } from '@codemirror/view';
+import { foldService } from '@codemirror/language';
+import { Completion, CompletionContext, autocompletion, completeFromList } from '@codemirror/autocomplete';
+import { MERMAID_BLOCK_END, MERMAID_BLOCK_START, mermaidCompletions, mermaidLanguage } from './mermaid';
+import { PLANTUML_BLOCK_END, PLANTUML_BLOCK_START, plantUMLCompletions, plantUMLLanguage } from './plantuml';
+
+export type EditorLanguage = 'plantuml' | 'mermaid';
+
+// Fold from the end of a block's opening line to the end of the line before
+// its matching close, counting nested blocks.
+const blockFolding = (start: RegExp, end: RegExp) =>
+  foldService.of((state, lineStart) => {
+    const first = state.doc.lineAt(lineStart);
+    if (end.test(first.text) || !start.test(first.text)) return null;
+
+    let depth = 1;
+    for (let number = first.number + 1; number <= state.doc.lines; number++) {
+      const line = state.doc.line(number);
+      if (end.test(line.text)) depth--;
+      else if (start.test(line.text)) depth++;
+      if (depth === 0) {
+        return number - 1 > first.number ? { from: first.to, to: state.doc.line(number - 1).to } : null;
+      }
+    }
+    return null;
+  });
+
+// Offer the language's words, plus identifiers already used in the document
+const completionSource = (completions: Completion[]) => {
+  const fromList = completeFromList(completions);
+  return (context: CompletionContext) => {
+    const result = fromList(context);
+    if (!result || result instanceof Promise) return result;
+
+    const known = new Set(completions.map(completion => completion.label));
+    const identifiers = new Set(context.state.doc.toString().match(/\b[A-Za-z_][\w]{2,}\b/g) ?? []);
+    const word = context.matchBefore(/[\w@!$-]*/)?.text;
+    const extra = Array.from(identifiers)
+      .filter(identifier => !known.has(identifier) && identifier !== word)
+      .map(label => ({ label, type: 'variable' }));
+    return { ...result, options: [...result.options, ...extra] };
+  };
+};
+
+export function languageSupport(language: EditorLanguage): Extension {
+  return language === 'plantuml'
+    ? [
+      plantUMLLanguage,
+      blockFolding(PLANTUML_BLOCK_START, PLANTUML_BLOCK_END),
+      autocompletion({ override: [completionSource(plantUMLCompletions)] }),
+    ]
+    : [
+      mermaidLanguage,
+      blockFolding(MERMAID_BLOCK_START, MERMAID_BLOCK_END),
+      autocompletion({ override: [completionSource(mermaidCompletions)] }),
+    ];
+}
+
+// Marks one line, e.g. the line a diagram failed to parse on
+export const setErrorLine = StateEffect.define<number | null>();
+
+export const errorLineField = StateField.define<DecorationSet>({
+  create: () => Decoration.none,
+  update(decorations, transaction) {
+    let next = decorations.map(transaction.changes);
+    transaction.effects.forEach(effect => {
+      if (!effect.is(setErrorLine)) return;
+      const builder = new RangeSetBuilder<Decoration>();
+      const line = effect.value;
+      if (line && line <= transaction.state.doc.lines) {
+        builder.add(transaction.state.doc.line(line).from, transaction.state.doc.line(line).from, Decoration.line({ class: 'cm-error-line' }));
+      }
+      next = builder.finish();
+    });
+    return next;
+  },
+  provide: field => EditorView.decorations.from(field),
+});
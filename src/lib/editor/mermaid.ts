@@ -0,0 +1,55 @@
+import { StreamLanguage, StringStream } from '@codemirror/language';
+import { Completion } from '@codemirror/autocomplete';
+
+const DIAGRAM_TYPES = [
+  'graph', 'flowchart', 'sequenceDiagram', 'classDiagram', 'stateDiagram', 'stateDiagram-v2',
+  'erDiagram', 'journey', 'gantt', 'pie', 'mindmap', 'timeline', 'gitGraph',
+  'C4Context', 'C4Container', 'C4Component', 'C4Deployment', 'quadrantChart', 'architecture-beta',
+];
+
+const KEYWORDS = [
+  'subgraph', 'end', 'direction', 'classDef', 'class', 'style', 'linkStyle', 'click',
+  'participant', 'actor', 'as', 'Note', 'note', 'over', 'left of', 'right of',
+  'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'break', 'rect', 'activate', 'deactivate', 'autonumber',
+  'state', 'title', 'section', 'dateFormat', 'axisFormat',
+];
+
+const DIRECTIONS = ['TD', 'TB', 'BT', 'LR', 'RL'];
+
+const STYLE_PROPERTIES = ['fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'color', 'font-weight'];
+
+const KEYWORD_SET = new Set([...DIAGRAM_TYPES, ...KEYWORDS.filter(keyword => !keyword.includes(' ')), ...DIRECTIONS]);
+
+export const mermaidLanguage = StreamLanguage.define({
+  name: 'mermaid',
+  token(stream: StringStream) {
+    if (stream.eatSpace()) return null;
+    if (stream.match(/^%%\{.*\}%%/)) return 'meta';
+    if (stream.match(/^%%.*/)) return 'comment';
+    if (stream.match(/^"[^"]*"?/)) return 'string';
+    if (stream.match(/^\|[^|]*\|/)) return 'string';
+    if (stream.match(/^(<?(-{2,}|={2,}|-\.+-?)[>ox]?|-->>|->>|-x|--x|-\)|--\)|<<?-->>?|\|\|--o\{|\}o--\|\||[|}][|o]--[o|][|{])/)) return 'operator';
+    if (stream.match(/^#[0-9a-fA-F]{3,8}\b/)) return 'atom';
+    if (stream.match(/^:::[\w-]+/)) return 'className';
+    if (stream.match(/^[[\](){}>]+/)) return 'bracket';
+    if (stream.match(/^\d+(\.\d+)?/)) return 'number';
+    if (stream.match(/^[\w-]+/)) {
+      return KEYWORD_SET.has(stream.current()) ? 'keyword' : 'variableName';
+    }
+    stream.next();
+    return null;
+  },
+  languageData: {
+    commentTokens: { line: '%%' },
+  },
+});
+
+export const mermaidCompletions: Completion[] = [
+  ...DIAGRAM_TYPES.map(label => ({ label, type: 'keyword', detail: 'diagram' })),
+  ...KEYWORDS.map(label => ({ label, type: 'keyword' })),
+  ...DIRECTIONS.map(label => ({ label, type: 'constant', detail: 'direction' })),
+  ...STYLE_PROPERTIES.map(label => ({ label, type: 'property', detail: 'style' })),
+];
+
+export const MERMAID_BLOCK_START = /^\s*((subgraph|loop|alt|opt|par|critical|break|rect)\b|.*\{\s*$)/;
+export const MERMAID_BLOCK_END = /^\s*(end|\})\s*$/;
@@ -0,0 +1,97 @@
+import { StreamLanguage, StringStream } from '@codemirror/language';
+import { Completion } from '@codemirror/autocomplete';
+
+const KEYWORDS = [
+  'actor', 'participant', 'boundary', 'control', 'entity', 'database', 'collections', 'queue',
+  'usecase', 'class', 'interface', 'abstract', 'enum', 'annotation', 'package', 'namespace',
+  'node', 'folder', 'frame', 'cloud', 'component', 'rectangle', 'artifact', 'storage', 'card',
+  'state', 'object', 'map', 'json', 'agent', 'stack', 'file',
+  'alt', 'else', 'opt', 'loop', 'par', 'break', 'critical', 'group', 'end',
+  'note', 'left', 'right', 'top', 'bottom', 'over', 'of', 'as', 'on', 'link',
+  'activate', 'deactivate', 'destroy', 'create', 'return', 'autonumber', 'ref',
+  'start', 'stop', 'kill', 'detach', 'if', 'then', 'elseif', 'endif', 'while', 'endwhile',
+  'repeat', 'fork', 'again', 'split', 'partition', 'switch', 'case', 'endswitch',
+  'title', 'header', 'footer', 'legend', 'endlegend', 'caption', 'skinparam', 'hide', 'show',
+  'left to right direction', 'top to bottom direction', 'newpage', 'together', 'extends', 'implements',
+];
+
+const PREPROCESSOR = ['!include', '!includeurl', '!define', '!undef', '!ifdef', '!ifndef', '!else', '!endif', '!theme', '!pragma', '!function', '!endfunction', '!procedure', '!endprocedure', '!$'];
+
+// A practical subset of the hundreds of skinparams, covering what
+// architecture diagrams usually tweak.
+export const SKINPARAMS = [
+  'backgroundColor', 'monochrome', 'shadowing', 'handwritten', 'roundCorner', 'linetype', 'nodesep', 'ranksep',
+  'defaultFontName', 'defaultFontSize', 'defaultFontColor', 'dpi', 'padding', 'maxMessageSize',
+  'ArrowColor', 'ArrowThickness', 'ArrowFontColor',
+  'ActorBackgroundColor', 'ActorBorderColor',
+  'ParticipantBackgroundColor', 'ParticipantBorderColor', 'ParticipantFontColor',
+  'SequenceLifeLineBorderColor', 'SequenceGroupBackgroundColor', 'SequenceMessageAlignment',
+  'ClassBackgroundColor', 'ClassBorderColor', 'ClassFontColor', 'ClassAttributeIconSize',
+  'ComponentBackgroundColor', 'ComponentBorderColor', 'ComponentStyle',
+  'DatabaseBackgroundColor', 'DatabaseBorderColor',
+  'NodeBackgroundColor', 'NodeBorderColor',
+  'PackageBackgroundColor', 'PackageBorderColor', 'PackageStyle',
+  'NoteBackgroundColor', 'NoteBorderColor', 'NoteFontColor',
+  'RectangleBackgroundColor', 'RectangleBorderColor',
+  'StateBackgroundColor', 'StateBorderColor',
+  'ActivityBackgroundColor', 'ActivityBorderColor', 'ActivityDiamondBackgroundColor',
+  'UsecaseBackgroundColor', 'UsecaseBorderColor',
+  'TitleFontSize', 'TitleFontColor', 'LegendBackgroundColor',
+];
+
+const KEYWORD_SET = new Set(KEYWORDS.filter(keyword => !keyword.includes(' ')));
+
+interface PlantUMLState {
+  inComment: boolean;
+}
+
+export const plantUMLLanguage = StreamLanguage.define<PlantUMLState>({
+  name: 'plantuml',
+  startState: () => ({ inComment: false }),
+  token(stream: StringStream, state: PlantUMLState) {
+    if (state.inComment) {
+      if (stream.skipTo("'/")) {
+        stream.match("'/");
+        state.inComment = false;
+      } else {
+        stream.skipToEnd();
+      }
+      return 'comment';
+    }
+    if (stream.eatSpace()) return null;
+    if (stream.match("/'")) {
+      state.inComment = true;
+      return 'comment';
+    }
+    if (stream.sol() && stream.match(/^'.*/)) return 'comment';
+    if (stream.match(/^@(start|end)\w+/)) return 'meta';
+    if (stream.match(/^![a-z]+/)) return 'meta';
+    if (stream.match(/^"(?:[^"\\]|\\.)*"?/)) return 'string';
+    if (stream.match(/^#[0-9a-fA-F]{3,8}\b/) || stream.match(/^#[a-zA-Z]+/)) return 'atom';
+    if (stream.match(/^<?[-.=]+(\[[^\]]*\])?[-.=]*(>>?|\|>|\*|o|\\\\|\/\/)?/) || stream.match(/^<\|?[-.]+/)) return 'operator';
+    if (stream.match(/^\d+(\.\d+)?/)) return 'number';
+    if (stream.match(/^[:\][{}()|]/)) return 'punctuation';
+    if (stream.match(/^[$\w]+/)) {
+      const word = stream.current();
+      if (KEYWORD_SET.has(word.toLowerCase())) return 'keyword';
+      return word.startsWith('$') ? 'variableName.special' : 'variableName';
+    }
+    stream.next();
+    return null;
+  },
+  languageData: {
+    commentTokens: { line: "'", block: { open: "/'", close: "'/" } },
+  },
+});
+
+export const plantUMLCompletions: Completion[] = [
+  ...KEYWORDS.map(label => ({ label, type: 'keyword' })),
+  ...PREPROCESSOR.map(label => ({ label, type: 'keyword', detail: 'preprocessor' })),
+  { label: '@startuml', type: 'keyword', apply: '@startuml\n\n@enduml' },
+  { label: '@enduml', type: 'keyword' },
+  ...SKINPARAMS.map(label => ({ label, type: 'property', detail: 'skinparam' })),
+];
+
+// Lines that open and close a foldable block
+export const PLANTUML_BLOCK_START = /^\s*(@start\w+|(alt|opt|loop|par|break|critical|group|box|partition|if|while|repeat|fork|split|switch|legend)\b|.*\{\s*$|note\s+(left|right|over|top|bottom)(?!.*:))/i;
+export const PLANTUML_BLOCK_END = /^\s*(@end\w+|end(\s+\w+)?|endif|endwhile|endlegend|endswitch|end\s*(fork|split|note|box)|repeat\s+while.*|\}\s*)$/i;
@@ -0,0 +1,36 @@
+import { rasterizeSvg, serializeSvg, svgBackground, withBackground } from './image';
+
+export type ImageScale = 1 | 2 | 4;
+
+export const IMAGE_SCALES: ImageScale[] = [1, 2, 4];
+
+// Both renderers draw for a light page when they do not set their own background
+const DEFAULT_BACKGROUND = '#ffffff';
+
+export interface DiagramImageOptions {
+  // Keep the diagram's own background, or drop it for a transparent image
+  transparent: boolean;
+}
+
+const backgroundFor = (svg: SVGSVGElement, { transparent }: DiagramImageOptions) =>
+  transparent ? null : svgBackground(svg) ?? DEFAULT_BACKGROUND;
+
+export function diagramSvgBlob(svg: SVGSVGElement, options: DiagramImageOptions) {
+  const markup = serializeSvg(withBackground(svg, backgroundFor(svg, options)));
+  return new Blob([markup], { type: 'image/svg+xml' });
+}
+
+export async function diagramPngBlob(svg: SVGSVGElement, scale: ImageScale, options: DiagramImageOptions) {
+  const background = backgroundFor(svg, options);
+  const image = await rasterizeSvg(withBackground(svg, background), scale, background ?? undefined);
+  return new Blob([image.png], { type: 'image/png' });
+}
+
+// Safari only lets the click that asked for it write to the clipboard, so
+// the write starts right away and takes the PNG while it is still being drawn.
+export async function copyImageToClipboard(png: Promise<Blob>) {
+  if (typeof ClipboardItem === 'undefined' || !navigator.clipboard?.write) {
+    throw new Error('This browser cannot copy images to the clipboard');
+  }
+  await navigator.clipboard.write([new ClipboardItem({ 'image/png': png })]);
+}
@@ -0,0 +1,305 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableOfContents,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { Lexer, Token, Tokens } from 'marked';
+import { titleFromHeading } from '@/lib/architecture';
+import { DiagramImage, fitWithin, getSvgSize, printScale, rasterizeSvg } from './image';
+import { DiagramExportOptions, DiagramExportPage, DocumentMetadata } from './types';
+
+type Block = Paragraph | Table | TableOfContents;
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const HEADINGS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const ORDERED_LIST = 'ordered-list';
+const CODE_FONT = 'Consolas';
+// A4 text width with the default margins is about 6.3in; 96px per inch
+const MAX_IMAGE_WIDTH = 600;
+const MAX_IMAGE_HEIGHT = 800;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+const textRun = (text: string, style: RunStyle) =>
+  new TextRun({
+    text: decodeEntities(text),
+    bold: style.bold,
+    italics: style.italics,
+    strike: style.strike,
+    font: style.code ? CODE_FONT : undefined,
+    style: style.link ? 'Hyperlink' : undefined,
+    shading: style.code ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F2F2F2' } : undefined,
+  });
+
+function inlineRuns(tokens: Token[] = [], style: RunStyle = {}): ParagraphChild[] {
+  return tokens.flatMap((token): ParagraphChild[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineRuns(token.tokens, { ...style, bold: true });
+      case 'em':
+        return inlineRuns(token.tokens, { ...style, italics: true });
+      case 'del':
+        return inlineRuns(token.tokens, { ...style, strike: true });
+      case 'codespan':
+        return [textRun(token.text, { ...style, code: true })];
+      case 'br':
+        return [new TextRun({ text: '', break: 1 })];
+      case 'link':
+        return [new ExternalHyperlink({ link: token.href, children: inlineRuns(token.tokens, { ...style, link: true }) })];
+      case 'text':
+        return 'tokens' in token && token.tokens ? inlineRuns(token.tokens, style) : [textRun(token.text, style)];
+      case 'escape':
+        return [textRun(token.text, style)];
+      case 'html':
+        return [textRun(token.text.replace(/<[^>]*>/g, ''), style)];
+      default:
+        return 'text' in token && typeof token.text === 'string' ? [textRun(token.text, style)] : [];
+    }
+  });
+}
+
+function listBlocks(list: Tokens.List, level: number, instance: { next: number }): Paragraph[] {
+  const listInstance = instance.next++;
+
+  return list.items.flatMap(item => {
+    const [first, ...rest] = item.tokens.filter(token => token.type !== 'checkbox');
+    const marker = item.task ? (item.checked ? '☑ ' : '☐ ') : '';
+    const runs = first && 'tokens' in first && first.tokens ? inlineRuns(first.tokens) : [];
+
+    const paragraph = new Paragraph({
+      children: [...(marker ? [new TextRun(marker)] : []), ...runs],
+      ...(list.ordered
+        ? { numbering: { reference: ORDERED_LIST, level, instance: listInstance } }
+        : { bullet: { level } }),
+    });
+
+    const nested = rest.flatMap(token =>
+      token.type === 'list'
+        ? listBlocks(token as Tokens.List, Math.min(level + 1, 8), instance)
+        : 'tokens' in token && token.tokens
+          ? [new Paragraph({ children: inlineRuns(token.tokens), indent: { left: 720 * (level + 1) } })]
+          : []
+    );
+
+    return [paragraph, ...nested];
+  });
+}
+
+function tableBlock(table: Tokens.Table): Table {
+  const cellBorder = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' };
+  const borders = { top: cellBorder, bottom: cellBorder, left: cellBorder, right: cellBorder };
+
+  const row = (cells: Tokens.TableCell[], isHeader: boolean) =>
+    new TableRow({
+      tableHeader: isHeader,
+      children: cells.map(cell =>
+        new TableCell({
+          borders,
+          shading: isHeader ? { type: ShadingType.CLEAR, color: 'auto', fill: 'E7EEF9' } : undefined,
+          children: [new Paragraph({ children: inlineRuns(cell.tokens, { bold: isHeader }) })],
+        })
+      ),
+    });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [row(table.header, true), ...table.rows.map(cells => row(cells, false))],
+  });
+}
+
+function codeBlocks(code: string): Paragraph[] {
+  return code.split('\n').map(line =>
+    new Paragraph({
+      spacing: { before: 0, after: 0 },
+      shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F2F2F2' },
+      children: [new TextRun({ text: line || ' ', font: CODE_FONT, size: 18 })],
+    })
+  );
+}
+
+function markdownBlocks(markdown: string, title: string): Block[] {
+  const tokens = Lexer.lex(markdown);
+  const instance = { next: 0 };
+  let skippedTitle = false;
+
+  return tokens.flatMap((token): Block[] => {
+    switch (token.type) {
+      case 'heading': {
+        // The title page already carries the document title
+        if (!skippedTitle && token.depth === 1 && titleFromHeading(token.text) === title) {
+          skippedTitle = true;
+          return [];
+        }
+        return [new Paragraph({ heading: HEADINGS[token.depth - 1], children: inlineRuns(token.tokens) })];
+      }
+      case 'paragraph':
+        return [new Paragraph({ children: inlineRuns(token.tokens), spacing: { after: 120 } })];
+      case 'list':
+        return listBlocks(token as Tokens.List, 0, instance);
+      case 'table':
+        return [tableBlock(token as Tokens.Table), new Paragraph('')];
+      case 'code':
+        return [...codeBlocks((token as Tokens.Code).text), new Paragraph('')];
+      case 'blockquote':
+        return [new Paragraph({
+          children: inlineRuns((token as Tokens.Blockquote).tokens.flatMap(child => ('tokens' in child && child.tokens) || []), { italics: true }),
+          indent: { left: 720 },
+          border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'BFBFBF', space: 8 } },
+        })];
+      case 'hr':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'BFBFBF', space: 1 } } })];
+      case 'html':
+        return token.text.trim() ? [new Paragraph(token.text.replace(/<[^>]*>/g, '').trim())] : [];
+      default:
+        return [];
+    }
+  });
+}
+
+function titlePage({ title, version, date }: DocumentMetadata): Paragraph[] {
+  return [
+    new Paragraph({ spacing: { before: 3600 } }),
+    new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun(title)] }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 240 },
+      children: [new TextRun({ text: 'Software Architecture Document', size: 28, color: '595959' })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      spacing: { before: 1200 },
+      children: [new TextRun({ text: `Version ${version}`, size: 24 })],
+    }),
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: [new TextRun({ text: date.toLocaleDateString(undefined, { dateStyle: 'long' }), size: 24 })],
+    }),
+    new Paragraph({ children: [new PageBreak()] }),
+  ];
+}
+
+// The diagram as SVG, which current Word versions draw sharply, with the PNG
+// for older ones. Scaled down to the page without changing its proportions.
+function diagramParagraph(diagram: DiagramImage, name: string) {
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [
+      new ImageRun({
+        type: 'svg',
+        data: new TextEncoder().encode(diagram.svg),
+        fallback: { type: 'png', data: diagram.png },
+        transformation: fitWithin(diagram.width, diagram.height, MAX_IMAGE_WIDTH, MAX_IMAGE_HEIGHT),
+        altText: { name, description: name, title: name },
+      }),
+    ],
+  });
+}
+
+function diagramBlocks(diagram: DiagramImage): Paragraph[] {
+  return [
+    new Paragraph({ children: [new PageBreak()] }),
+    new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('Architecture Diagram')] }),
+    diagramParagraph(diagram, 'Architecture diagram'),
+  ];
+}
+
+// Word document with a title page, a table of contents that Word fills in on
+// open, the markdown body with real heading styles, and the diagram last.
+export async function buildDocx(markdown: string, metadata: DocumentMetadata, diagram?: DiagramImage): Promise<Blob> {
+  const doc = new Document({
+    title: metadata.title,
+    features: { updateFields: true },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: Array.from({ length: 9 }, (_, level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{
+      children: [
+        ...titlePage(metadata),
+        new TableOfContents('Contents', { hyperlink: true, headingStyleRange: '1-3' }),
+        new Paragraph({ children: [new PageBreak()] }),
+        ...markdownBlocks(markdown, metadata.title),
+        ...(diagram ? diagramBlocks(diagram) : []),
+      ],
+    }],
+  });
+
+  return Packer.toBlob(doc);
+}
+
+// Word document holding a diagram, one page per diagram page with its PNG
+// fallback rendered at the requested resolution, and optionally an appendix
+// such as its source.
+export async function buildDiagramDocx(pages: DiagramExportPage[], { title, dpi, appendix }: DiagramExportOptions): Promise<Blob> {
+  // Word places images at 96 pixels per inch
+  const images = await Promise.all(pages.map(page => {
+    const natural = getSvgSize(page.svg);
+    const printed = fitWithin(natural.width, natural.height, MAX_IMAGE_WIDTH, MAX_IMAGE_HEIGHT);
+    return rasterizeSvg(page.svg, printScale(natural, printed.width / 96, dpi), '#ffffff');
+  }));
+  const doc = new Document({
+    title,
+    sections: [{
+      children: [
+        ...pages.flatMap((page, position) => [
+          ...(position > 0 ? [new Paragraph({ children: [new PageBreak()] })] : []),
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(page.title)] }),
+          diagramParagraph(images[position], page.title),
+        ]),
+        ...(appendix
+          ? [
+            new Paragraph({ children: [new PageBreak()] }),
+            new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun(appendix.title)] }),
+            ...codeBlocks(appendix.source),
+          ]
+          : []),
+      ],
+    }],
+  });
+
+  return Packer.toBlob(doc);
+}
@@ -0,0 +1,103 @@
+export interface DiagramImage {
+  // PNG bytes and data URL of the same raster
+  png: Uint8Array;
+  dataUrl: string;
+  svg: string;
+  // Intrinsic size of the diagram in CSS pixels, before scaling
+  width: number;
+  height: number;
+}
+
+// Mermaid sizes its SVG with width="100%" and a max-width style, so the
+// viewBox is the only reliable source of the diagram's real proportions.
+export function getSvgSize(svg: SVGSVGElement) {
+  const viewBox = svg.viewBox?.baseVal;
+  if (viewBox && viewBox.width && viewBox.height) {
+    return { width: viewBox.width, height: viewBox.height };
+  }
+  const box = svg.getBoundingClientRect();
+  return { width: box.width || 800, height: box.height || 600 };
+}
+
+export function serializeSvg(svg: SVGSVGElement, size = getSvgSize(svg)) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(size.width));
+  clone.setAttribute('height', String(size.height));
+  clone.style.maxWidth = '';
+  return new XMLSerializer().serializeToString(clone);
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not load the diagram image'));
+    image.src = src;
+  });
+
+const dataUrlToBytes = (dataUrl: string) => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index++) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+};
+
+// Draw an SVG onto a canvas at `scale` times its intrinsic size. Pass a
+// background colour to flatten transparency.
+export async function rasterizeSvg(svg: SVGSVGElement, scale = 2, background?: string): Promise<DiagramImage> {
+  const size = getSvgSize(svg);
+  const markup = serializeSvg(svg, size);
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(size.width * scale);
+  canvas.height = Math.ceil(size.height * scale);
+  const context = canvas.getContext('2d')!;
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const dataUrl = canvas.toDataURL('image/png');
+  return { png: dataUrlToBytes(dataUrl), dataUrl, svg: markup, ...size };
+}
+
+// The background the renderer painted on the SVG itself, if any. PlantUML
+// sets one from its skin; Mermaid leaves it to the page.
+export function svgBackground(svg: SVGSVGElement) {
+  return svg.style.backgroundColor || svg.style.background || undefined;
+}
+
+// A copy of the SVG with its background replaced, or removed when null so
+// the image comes out transparent.
+export function withBackground(svg: SVGSVGElement, background: string | null) {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.style.removeProperty('background');
+  clone.style.removeProperty('background-color');
+  if (background) clone.style.backgroundColor = background;
+  return clone;
+}
+
+// Canvas limits that hold across browsers; iOS Safari has the smallest area
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16777216;
+
+// The rasterizeSvg scale that gives `dpi` once the image is printed
+// `printedWidth` inches wide, capped so the canvas stays within browser limits.
+export function printScale(size: { width: number; height: number }, printedWidth: number, dpi: number) {
+  const scale = (dpi * printedWidth) / size.width;
+  return Math.min(
+    scale,
+    MAX_CANVAS_SIDE / size.width,
+    MAX_CANVAS_SIDE / size.height,
+    Math.sqrt(MAX_CANVAS_AREA / (size.width * size.height))
+  );
+}
+
+// Fit an image into a box without distorting it.
+export function fitWithin(width: number, height: number, maxWidth: number, maxHeight: number) {
+  const ratio = Math.min(maxWidth / width, maxHeight / height, 1);
+  return { width: Math.round(width * ratio), height: Math.round(height * ratio) };
+}
@@ -0,0 +1,19 @@
+import { titleFromHeading } from '@/lib/architecture';
+import { GenerationResult } from '@/lib/llm';
+
+export { IMAGE_SCALES, copyImageToClipboard, diagramPngBlob, diagramSvgBlob } from './diagram';
+export type { DiagramImageOptions, ImageScale } from './diagram';
+export { buildDiagramDocx, buildDocx } from './docx';
+export { downloadBlob } from './download';
+export { buildDiagramPdf, buildPdf } from './pdf';
+export { fitWithin, getSvgSize, rasterizeSvg, serializeSvg, svgBackground, withBackground } from './image';
+export type { DiagramImage } from './image';
+export type { DiagramExportOptions, DiagramExportPage, DocumentMetadata } from './types';
+
+// Prefer the validated architecture title, then the document's first
+// top-level heading.
+export function documentTitle(result: GenerationResult) {
+  if (result.architecture?.title) return result.architecture.title;
+  const heading = result.document.match(/^#\s+(.+?)\s*#*$/m);
+  return (heading && titleFromHeading(heading[1])) || 'System Architecture';
+}
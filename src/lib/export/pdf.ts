@@ -0,0 +1,488 @@
+import jsPDF from 'jspdf';
+import 'svg2pdf.js';
+import { Lexer, Token, Tokens } from 'marked';
+import { titleFromHeading } from '@/lib/architecture';
+import { fitWithin, getSvgSize, printScale, rasterizeSvg } from './image';
+import { DiagramExportOptions, DiagramExportPage, DocumentMetadata } from './types';
+
+// A4 in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_TOP = MARGIN + 6;
+const BODY_BOTTOM = PAGE_HEIGHT - MARGIN - 4;
+
+const PT = 0.3528;
+const BODY_SIZE = 10.5;
+const CODE_SIZE = 9;
+const HEADING_SIZES = [20, 16, 13, 12, 11, 11];
+const LINE_SPACING = 1.45;
+const LIST_INDENT = 6;
+const PX_TO_MM = 25.4 / 96;
+
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#6b7280';
+const LINK_COLOR = '#2563eb';
+const RULE_COLOR = '#d1d5db';
+const SHADE_COLOR = '#f3f4f6';
+
+interface Segment {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  link?: string;
+  lineBreak?: boolean;
+}
+
+interface TocEntry {
+  text: string;
+  level: number;
+  page: number;
+}
+
+// The standard PDF fonts only cover WinAnsi, so map the characters models
+// like to use and replace the rest rather than printing garbage.
+const printable = (text: string) =>
+  text
+    .replace(/\t/g, '  ')
+    .replace(/[→⇒]/g, '->')
+    .replace(/[←⇐]/g, '<-')
+    .replace(/↔/g, '<->')
+    .replace(/[✓✔]/g, 'v')
+    .replace(/[^ -ÿ–—‘’“”•…€™]/g, '?');
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&');
+
+function inlineSegments(tokens: Token[] = [], style: Omit<Segment, 'text'> = {}): Segment[] {
+  return tokens.flatMap((token): Segment[] => {
+    switch (token.type) {
+      case 'strong':
+        return inlineSegments(token.tokens, { ...style, bold: true });
+      case 'em':
+        return inlineSegments(token.tokens, { ...style, italic: true });
+      case 'del':
+        return inlineSegments(token.tokens, style);
+      case 'link':
+        return inlineSegments(token.tokens, { ...style, link: token.href });
+      case 'codespan':
+        return [{ ...style, text: decodeEntities(token.text), code: true }];
+      case 'br':
+        return [{ text: '', lineBreak: true }];
+      case 'text':
+        return 'tokens' in token && token.tokens
+          ? inlineSegments(token.tokens, style)
+          : [{ ...style, text: decodeEntities(token.text).replace(/\n/g, ' ') }];
+      case 'html':
+        return [{ ...style, text: token.text.replace(/<[^>]*>/g, '') }];
+      default:
+        return 'text' in token && typeof token.text === 'string' ? [{ ...style, text: decodeEntities(token.text) }] : [];
+    }
+  });
+}
+
+const plainText = (tokens: Token[] = []) => inlineSegments(tokens).map(segment => segment.text).join('');
+
+class PdfLayout {
+  y = BODY_TOP;
+  readonly toc: TocEntry[] = [];
+
+  constructor(readonly pdf: jsPDF) {}
+
+  get page() {
+    return this.pdf.getCurrentPageInfo().pageNumber;
+  }
+
+  newPage() {
+    this.pdf.addPage('a4', 'portrait');
+    this.y = BODY_TOP;
+  }
+
+  ensureSpace(height: number) {
+    if (this.y + height > BODY_BOTTOM) this.newPage();
+  }
+
+  setFont(segment: Omit<Segment, 'text'>, size: number) {
+    const style = segment.bold && segment.italic ? 'bolditalic' : segment.bold ? 'bold' : segment.italic ? 'italic' : 'normal';
+    this.pdf.setFont(segment.code ? 'courier' : 'helvetica', segment.code ? 'normal' : style);
+    this.pdf.setFontSize(size);
+  }
+
+  // Word-wrap styled runs into the column starting at `x`, breaking pages
+  // between lines.
+  writeRich(segments: Segment[], x: number, width: number, size = BODY_SIZE, color = TEXT_COLOR) {
+    const lineHeight = size * PT * LINE_SPACING;
+    const words = segments.flatMap(segment =>
+      segment.lineBreak
+        ? [segment]
+        : printable(segment.text).split(/(\s+)/).filter(Boolean).map(text => ({ ...segment, text }))
+    );
+
+    let line: { segment: Segment; width: number }[] = [];
+    let lineWidth = 0;
+
+    const flush = () => {
+      while (line.length && !line[line.length - 1].segment.text.trim()) line.pop();
+      this.ensureSpace(lineHeight);
+      let cursor = x;
+      line.forEach(({ segment, width: wordWidth }) => {
+        this.setFont(segment, size);
+        this.pdf.setTextColor(segment.link ? LINK_COLOR : color);
+        this.pdf.text(segment.text, cursor, this.y, { baseline: 'top' });
+        if (segment.link) this.pdf.link(cursor, this.y, wordWidth, size * PT, { url: segment.link });
+        cursor += wordWidth;
+      });
+      this.y += lineHeight;
+      line = [];
+      lineWidth = 0;
+    };
+
+    words.forEach(word => {
+      if (word.lineBreak) {
+        flush();
+        return;
+      }
+      const isSpace = !word.text.trim();
+      if (isSpace && !line.length) return;
+
+      this.setFont(word, size);
+      const wordWidth = this.pdf.getTextWidth(isSpace ? ' ' : word.text);
+      if (!isSpace && line.length && lineWidth + wordWidth > width) flush();
+
+      if (!isSpace && wordWidth > width) {
+        // A single word wider than the column (long URLs, identifiers)
+        const parts: string[] = this.pdf.splitTextToSize(word.text, width);
+        parts.forEach((part, index) => {
+          line.push({ segment: { ...word, text: part }, width: this.pdf.getTextWidth(part) });
+          if (index < parts.length - 1) flush();
+        });
+        lineWidth = line.reduce((total, item) => total + item.width, 0);
+        return;
+      }
+
+      line.push({ segment: isSpace ? { ...word, text: ' ' } : word, width: wordWidth });
+      lineWidth += wordWidth;
+    });
+
+    if (line.length) flush();
+  }
+
+  heading(segments: Segment[], depth: number) {
+    const size = HEADING_SIZES[depth - 1];
+    const height = size * PT * LINE_SPACING;
+    this.y += depth <= 2 ? 6 : 3;
+    // Keep the heading on the same page as the first lines after it
+    this.ensureSpace(height + BODY_SIZE * PT * LINE_SPACING * 2);
+    if (depth <= 3) {
+      this.toc.push({ text: printable(segments.map(segment => segment.text).join('')), level: depth, page: this.page });
+    }
+
+    this.writeRich(segments.map(segment => ({ ...segment, bold: true })), MARGIN, CONTENT_WIDTH, size);
+    if (depth === 1) {
+      this.pdf.setDrawColor(RULE_COLOR);
+      this.pdf.line(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y);
+    }
+    this.y += 2;
+  }
+
+  list(list: Tokens.List, indent: number) {
+    const lineHeight = BODY_SIZE * PT * LINE_SPACING;
+    const start = typeof list.start === 'number' ? list.start : 1;
+
+    list.items.forEach((item, index) => {
+      const marker = item.task ? (item.checked ? '[x]' : '[ ]') : list.ordered ? `${start + index}.` : '•';
+      const [first, ...rest] = item.tokens.filter(token => token.type !== 'checkbox');
+      const x = MARGIN + indent;
+      const textX = x + (item.task || list.ordered ? LIST_INDENT + 2 : LIST_INDENT);
+
+      this.ensureSpace(lineHeight);
+      this.setFont({}, BODY_SIZE);
+      this.pdf.setTextColor(TEXT_COLOR);
+      this.pdf.text(marker, x, this.y, { baseline: 'top' });
+
+      if (first && 'tokens' in first && first.tokens) {
+        this.writeRich(inlineSegments(first.tokens), textX, MARGIN + CONTENT_WIDTH - textX);
+      } else {
+        this.y += lineHeight;
+      }
+      this.blocks(rest, textX - MARGIN);
+    });
+    this.y += 1.5;
+  }
+
+  code(code: string, indent: number) {
+    const lineHeight = CODE_SIZE * PT * LINE_SPACING;
+    const x = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    this.setFont({ code: true }, CODE_SIZE);
+    const lines: string[] = code
+      .split('\n')
+      .flatMap(line => (line ? this.pdf.splitTextToSize(printable(line), width - 6) : [' ']));
+
+    this.y += 1;
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.pdf.setFillColor(SHADE_COLOR);
+      this.pdf.rect(x, this.y - (index === 0 ? 2 : 0), width, lineHeight + (index === 0 ? 2 : 0) + (index === lines.length - 1 ? 2 : 0), 'F');
+      this.setFont({ code: true }, CODE_SIZE);
+      this.pdf.setTextColor(TEXT_COLOR);
+      this.pdf.text(line, x + 3, this.y, { baseline: 'top' });
+      this.y += lineHeight;
+    });
+    this.y += 4;
+  }
+
+  table(table: Tokens.Table) {
+    const padding = 1.5;
+    const lineHeight = BODY_SIZE * PT * LINE_SPACING;
+    const columns = table.header.length;
+    const columnWidth = CONTENT_WIDTH / columns;
+
+    const layoutRow = (cells: Tokens.TableCell[], bold: boolean) => {
+      this.setFont({ bold }, BODY_SIZE);
+      const lines = cells.map(cell => this.pdf.splitTextToSize(printable(plainText(cell.tokens)), columnWidth - padding * 2) as string[]);
+      return { lines, bold, height: Math.max(1, ...lines.map(cell => cell.length)) * lineHeight + padding * 2 };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>) => {
+      row.lines.forEach((cellLines, column) => {
+        const x = MARGIN + column * columnWidth;
+        this.pdf.setDrawColor(RULE_COLOR);
+        if (row.bold) {
+          this.pdf.setFillColor(SHADE_COLOR);
+          this.pdf.rect(x, this.y, columnWidth, row.height, 'FD');
+        } else {
+          this.pdf.rect(x, this.y, columnWidth, row.height);
+        }
+        this.setFont({ bold: row.bold }, BODY_SIZE);
+        this.pdf.setTextColor(TEXT_COLOR);
+        this.pdf.text(cellLines, x + padding, this.y + padding, { baseline: 'top', lineHeightFactor: LINE_SPACING });
+      });
+      this.y += row.height;
+    };
+
+    const header = layoutRow(table.header, true);
+    this.ensureSpace(header.height * 2);
+    drawRow(header);
+    table.rows.forEach(cells => {
+      const row = layoutRow(cells, false);
+      if (this.y + row.height > BODY_BOTTOM) {
+        // Repeat the header on every page the table spans
+        this.newPage();
+        drawRow(header);
+      }
+      drawRow(row);
+    });
+    this.y += 4;
+  }
+
+  blockquote(quote: Tokens.Blockquote, indent: number) {
+    const startPage = this.page;
+    const startY = this.y;
+    const segments = quote.tokens.flatMap(token => ('tokens' in token && token.tokens ? inlineSegments(token.tokens, { italic: true }) : []));
+    this.writeRich(segments, MARGIN + indent + 5, CONTENT_WIDTH - indent - 5, BODY_SIZE, MUTED_COLOR);
+    if (this.page === startPage) {
+      this.pdf.setDrawColor(RULE_COLOR);
+      this.pdf.setLineWidth(0.8);
+      this.pdf.line(MARGIN + indent + 1, startY, MARGIN + indent + 1, this.y);
+      this.pdf.setLineWidth(0.2);
+    }
+    this.y += 2;
+  }
+
+  blocks(tokens: Token[], indent = 0) {
+    tokens.forEach(token => {
+      switch (token.type) {
+        case 'heading':
+          this.heading(inlineSegments(token.tokens), token.depth);
+          break;
+        case 'paragraph':
+        case 'text':
+          this.writeRich(inlineSegments(token.tokens), MARGIN + indent, CONTENT_WIDTH - indent);
+          this.y += token.type === 'paragraph' ? 2.5 : 0;
+          break;
+        case 'list':
+          this.list(token as Tokens.List, indent);
+          break;
+        case 'code':
+          this.code((token as Tokens.Code).text, indent);
+          break;
+        case 'table':
+          this.table(token as Tokens.Table);
+          break;
+        case 'blockquote':
+          this.blockquote(token as Tokens.Blockquote, indent);
+          break;
+        case 'hr':
+          this.ensureSpace(4);
+          this.pdf.setDrawColor(RULE_COLOR);
+          this.pdf.line(MARGIN, this.y + 2, MARGIN + CONTENT_WIDTH, this.y + 2);
+          this.y += 4;
+          break;
+      }
+    });
+  }
+
+  async diagram(svg: SVGSVGElement) {
+    this.newPage();
+    this.heading([{ text: 'Architecture Diagram' }], 1);
+
+    const natural = getSvgSize(svg);
+    const size = fitWithin(natural.width * PX_TO_MM, natural.height * PX_TO_MM, CONTENT_WIDTH, BODY_BOTTOM - this.y);
+    const x = MARGIN + (CONTENT_WIDTH - size.width) / 2;
+
+    // svg2pdf resolves styles through the live DOM
+    const host = document.createElement('div');
+    host.style.cssText = 'position: fixed; left: -10000px; top: 0;';
+    host.appendChild(svg);
+    document.body.appendChild(host);
+    try {
+      await this.pdf.svg(svg, { x, y: this.y, width: size.width, height: size.height });
+    } catch (error) {
+      console.error('Vector diagram export failed, embedding a bitmap instead:', error);
+      const image = await rasterizeSvg(svg, 3, '#ffffff');
+      this.pdf.addImage(image.dataUrl, 'PNG', x, this.y, size.width, size.height);
+    } finally {
+      host.remove();
+    }
+    this.y += size.height;
+  }
+}
+
+function drawTitlePage(pdf: jsPDF, { title, version, date }: DocumentMetadata) {
+  pdf.setTextColor(TEXT_COLOR);
+  pdf.setFont('helvetica', 'bold');
+  pdf.setFontSize(28);
+  const lines: string[] = pdf.splitTextToSize(printable(title), CONTENT_WIDTH);
+  pdf.text(lines, PAGE_WIDTH / 2, 110, { align: 'center' });
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(14);
+  pdf.setTextColor(MUTED_COLOR);
+  pdf.text('Software Architecture Document', PAGE_WIDTH / 2, 110 + lines.length * 12 + 4, { align: 'center' });
+  pdf.setFontSize(12);
+  pdf.text(`Version ${version}`, PAGE_WIDTH / 2, 170, { align: 'center' });
+  pdf.text(date.toLocaleDateString(undefined, { dateStyle: 'long' }), PAGE_WIDTH / 2, 177, { align: 'center' });
+}
+
+// Table of contents pages are inserted after the title page once the body is
+// laid out, since only then are the page numbers known.
+function insertTableOfContents(pdf: jsPDF, toc: TocEntry[]) {
+  if (!toc.length) return;
+  const lineHeight = 7;
+  const perPage = Math.floor((BODY_BOTTOM - BODY_TOP - 14) / lineHeight);
+  const pageCount = Math.max(1, Math.ceil(toc.length / perPage));
+  for (let index = 0; index < pageCount; index++) pdf.insertPage(2);
+
+  toc.forEach((entry, index) => {
+    const tocPage = 2 + Math.floor(index / perPage);
+    const row = index % perPage;
+    pdf.setPage(tocPage);
+
+    if (row === 0) {
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(HEADING_SIZES[0]);
+      pdf.setTextColor(TEXT_COLOR);
+      pdf.text(index === 0 ? 'Contents' : 'Contents (continued)', MARGIN, BODY_TOP, { baseline: 'top' });
+    }
+
+    const y = BODY_TOP + 14 + row * lineHeight;
+    const x = MARGIN + (entry.level - 1) * 6;
+    const page = entry.page + pageCount;
+    pdf.setFont('helvetica', entry.level === 1 ? 'bold' : 'normal');
+    pdf.setFontSize(entry.level === 1 ? 11 : 10);
+    pdf.setTextColor(TEXT_COLOR);
+    const text = pdf.splitTextToSize(entry.text, CONTENT_WIDTH - (x - MARGIN) - 15)[0] as string;
+    pdf.text(text, x, y, { baseline: 'top' });
+    pdf.text(String(page), MARGIN + CONTENT_WIDTH, y, { baseline: 'top', align: 'right' });
+    pdf.link(x, y, CONTENT_WIDTH - (x - MARGIN), lineHeight - 1, { pageNumber: page });
+  });
+}
+
+function drawHeadersAndFooters(pdf: jsPDF, { title, version, date }: DocumentMetadata) {
+  const total = pdf.getNumberOfPages();
+  for (let page = 2; page <= total; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(MUTED_COLOR);
+    pdf.setDrawColor(RULE_COLOR);
+
+    pdf.text(pdf.splitTextToSize(printable(title), CONTENT_WIDTH - 40)[0], MARGIN, MARGIN - 2);
+    pdf.text(`Version ${version}`, MARGIN + CONTENT_WIDTH, MARGIN - 2, { align: 'right' });
+    pdf.line(MARGIN, MARGIN, MARGIN + CONTENT_WIDTH, MARGIN);
+
+    const footerY = PAGE_HEIGHT - MARGIN + 6;
+    pdf.line(MARGIN, footerY - 4, MARGIN + CONTENT_WIDTH, footerY - 4);
+    pdf.text(date.toLocaleDateString(), MARGIN, footerY);
+    pdf.text(`Page ${page} of ${total}`, MARGIN + CONTENT_WIDTH, footerY, { align: 'right' });
+  }
+}
+
+// Paginated A4 PDF: title page, table of contents, the markdown body and the
+// diagram as vector graphics, with running headers and page numbers.
+export async function buildPdf(markdown: string, metadata: DocumentMetadata, diagram?: SVGSVGElement): Promise<Blob> {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  pdf.setProperties({ title: metadata.title, subject: 'Software Architecture Document' });
+  drawTitlePage(pdf, metadata);
+
+  const layout = new PdfLayout(pdf);
+  layout.newPage();
+
+  // The title page already carries the document title
+  const tokens = Lexer.lex(markdown);
+  const titleIndex = tokens.findIndex(token => token.type !== 'space');
+  const first = tokens[titleIndex];
+  if (first?.type === 'heading' && first.depth === 1 && titleFromHeading(first.text) === metadata.title) {
+    tokens.splice(titleIndex, 1);
+  }
+  layout.blocks(tokens);
+
+  if (diagram) await layout.diagram(diagram);
+
+  insertTableOfContents(pdf, layout.toc);
+  drawHeadersAndFooters(pdf, metadata);
+  return pdf.output('blob');
+}
+
+// A diagram with each of its pages fitted to a sheet of its own as a bitmap
+// at the requested resolution, turned to landscape when the page is wide, and
+// optionally followed by an appendix such as its source.
+export async function buildDiagramPdf(pages: DiagramExportPage[], { title, dpi, appendix }: DiagramExportOptions): Promise<Blob> {
+  const sizes = pages.map(page => getSvgSize(page.svg));
+  const orientations = sizes.map(size => size.width > size.height ? 'landscape' as const : 'portrait' as const);
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: orientations[0] });
+  pdf.setProperties({ title });
+
+  for (const [position, page] of pages.entries()) {
+    const natural = sizes[position];
+    if (position > 0) pdf.addPage('a4', orientations[position]);
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(HEADING_SIZES[1]);
+    pdf.setTextColor(TEXT_COLOR);
+    pdf.text(pdf.splitTextToSize(printable(page.title), pageWidth - MARGIN * 2)[0], MARGIN, MARGIN, { baseline: 'top' });
+
+    const top = MARGIN + 12;
+    const size = fitWithin(natural.width * PX_TO_MM, natural.height * PX_TO_MM, pageWidth - MARGIN * 2, pageHeight - top - MARGIN);
+    const image = await rasterizeSvg(page.svg, printScale(natural, size.width / 25.4, dpi), '#ffffff');
+    pdf.addImage(image.dataUrl, 'PNG', (pageWidth - size.width) / 2, top, size.width, size.height);
+  }
+
+  if (appendix) {
+    const layout = new PdfLayout(pdf);
+    layout.newPage();
+    layout.heading([{ text: appendix.title }], 1);
+    layout.code(appendix.source, 0);
+  }
+  return pdf.output('blob');
+}
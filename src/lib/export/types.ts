@@ -0,0 +1,20 @@
+export interface DocumentMetadata {
+  title: string;
+  version: number;
+  date: Date;
+}
+
+// One page of a diagram export, headed by its own title
+export interface DiagramExportPage {
+  svg: SVGSVGElement;
+  title: string;
+}
+
+// Options for exporting a single diagram rather than a whole document
+export interface DiagramExportOptions {
+  title: string;
+  // Resolution of the embedded bitmap, in dots per inch
+  dpi: number;
+  // Printed after the diagram pages, e.g. the source it was rendered from
+  appendix?: { title: string; source: string };
+}
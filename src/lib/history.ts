@@ -0,0 +1,34 @@
+import { GenerationResult, ProviderId } from '@/lib/llm';
+import { withStore } from '@/lib/db';
+
+export interface HistoryEntry {
+  id: string;
+  name: string;
+  prompt: string;
+  template: string | null;
+  provider: ProviderId;
+  model: string;
+  createdAt: string;
+  pinned: boolean;
+  result: GenerationResult;
+}
+
+// Pinned entries first, then newest first.
+export const sortHistory = (entries: HistoryEntry[]) =>
+  [...entries].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.createdAt.localeCompare(a.createdAt));
+
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('generations', 'readonly', store => store.getAll());
+  return sortHistory(entries);
+}
+
+export function saveHistoryEntry(entry: HistoryEntry): Promise<IDBValidKey> {
+  return withStore('generations', 'readwrite', store => store.put(entry));
+}
+
+export function deleteHistoryEntry(id: string): Promise<undefined> {
+  return withStore('generations', 'readwrite', store => store.delete(id));
+}
+
+export const defaultEntryName = (result: GenerationResult, prompt: string) =>
+  result.architecture?.title ?? (prompt.trim().split(/\s+/).slice(0, 6).join(' ') || 'Untitled generation');
@@ -0,0 +1,98 @@
+import { LLMProviderError } from './types';
+
+export const joinUrl = (baseUrl: string, path: string) =>
+  `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+
+// POST a JSON body, turning transport and HTTP failures into LLMProviderError
+// so the UI can show a single message. Aborts are rethrown untouched.
+async function sendJson(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new LLMProviderError(`Could not reach ${url}. Is the server running?`);
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LLMProviderError(
+      `Request failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`,
+      response.status
+    );
+  }
+
+  return response;
+}
+
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await sendJson(url, body, headers, signal);
+  return response.json() as Promise<T>;
+}
+
+// POST a JSON body and call onLine for every line of the streamed response.
+export async function postForLines(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const response = await sendJson(url, body, headers, signal);
+  if (!response.body) throw new LLMProviderError('The server did not return a stream.');
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(line => onLine(line.replace(/\r$/, '')));
+  }
+
+  buffered += decoder.decode();
+  if (buffered) onLine(buffered);
+}
+
+// Parse one JSON chunk of a stream. A malformed or cut-off chunk becomes an
+// LLMProviderError naming the provider instead of a bare SyntaxError.
+export function parseStreamChunk<T>(data: string, provider: string): T {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    throw new LLMProviderError(`${provider} sent a malformed stream chunk: ${data.slice(0, 100)}`);
+  }
+}
+
+// Server-sent events: call onData with the payload of every `data:` line.
+export function postForEvents(
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  onData: (data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  return postForLines(url, body, headers, line => {
+    if (line.startsWith('data:')) onData(line.slice(5).trim());
+  }, signal);
+}
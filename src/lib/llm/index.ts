@@ -0,0 +1,182 @@
+import { createAnthropicProvider } from './providers/anthropic';
+import { createFakeProvider } from './providers/fake';
+import { createOllamaProvider } from './providers/ollama';
+import { createOpenAIProvider } from './providers/openai';
+import {
+  buildArchitectureMessages,
+  buildDiagramMessages,
+  buildRefinementMessages,
+  buildSectionRewriteMessages,
+  buildSectionMessages,
+  parseDiagramResponse,
+  parseGenerationResponse,
+  parsePartialResponse,
+  parseSectionResponse,
+  parseSectionRewriteResponse,
+} from './prompt';
+import { withDocument } from './result';
+import { buildArchitecture, locateSections, replaceSectionText } from '@/lib/architecture';
+import { extractPlaceholders, fillTemplate } from '@/lib/template';
+import { ChatMessage, GenerationResult, LLMProvider, LLMProviderError, ProviderSettings } from './types';
+
+export * from './types';
+export { keepLockedSections, withDiagram, withDocument } from './result';
+export { PROVIDER_DEFAULTS, PROVIDER_OPTIONS, loadProviderSettings, saveProviderSettings } from './settings';
+
+export function createProvider(settings: ProviderSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(settings);
+    case 'anthropic':
+      return createAnthropicProvider(settings);
+    case 'ollama':
+      return createOllamaProvider(settings);
+    case 'fake':
+      return createFakeProvider();
+  }
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  // Called with the partially parsed result every time the stream grows.
+  onPartial?: (partial: GenerationResult) => void;
+}
+
+async function requestResult(
+  provider: LLMProvider,
+  messages: ChatMessage[],
+  { signal, onPartial }: GenerateOptions
+): Promise<GenerationResult> {
+  if (!onPartial) {
+    return parseGenerationResponse(await provider.complete({ messages, signal }));
+  }
+
+  let text = '';
+  await provider.stream({
+    messages,
+    signal,
+    onDelta: delta => {
+      text += delta;
+      onPartial(parsePartialResponse(text));
+    },
+  });
+  return parseGenerationResponse(text);
+}
+
+export function generateArchitecture(
+  prompt: string,
+  settings: ProviderSettings,
+  options: GenerateOptions = {}
+): Promise<GenerationResult> {
+  return requestResult(createProvider(settings), buildArchitectureMessages(prompt), options);
+}
+
+export interface RefineOptions extends GenerateOptions {
+  // The template the result was filled from, if any
+  template?: string | null;
+}
+
+// Apply a follow-up instruction to an existing result, returning the full revised result.
+export function refineArchitecture(
+  prompt: string,
+  current: GenerationResult,
+  instruction: string,
+  settings: ProviderSettings,
+  { template, ...options }: RefineOptions = {}
+): Promise<GenerationResult> {
+  return requestResult(createProvider(settings), buildRefinementMessages(prompt, current, instruction, template), options);
+}
+
+// Rewrite a single section of the document, leaving the rest untouched.
+export async function regenerateSection(
+  prompt: string,
+  current: GenerationResult,
+  sectionId: string,
+  instruction: string,
+  settings: ProviderSettings,
+  { signal, onPartial }: GenerateOptions = {}
+): Promise<GenerationResult> {
+  const section = locateSections(current.document).find(s => s.id === sectionId);
+  if (!section) throw new LLMProviderError(`Section "${sectionId}" was not found in the document.`);
+
+  const provider = createProvider(settings);
+  const messages = buildSectionRewriteMessages(prompt, current.document, section.heading, instruction);
+  const apply = (text: string) =>
+    withDocument(current, replaceSectionText(current.document, sectionId, parseSectionRewriteResponse(text, section.heading)));
+
+  let text = '';
+  if (onPartial) {
+    await provider.stream({
+      messages,
+      signal,
+      onDelta: delta => {
+        text += delta;
+        onPartial(apply(text));
+      },
+    });
+  } else {
+    text = await provider.complete({ messages, signal });
+  }
+
+  if (!parseSectionRewriteResponse(text, section.heading)) {
+    throw new LLMProviderError(`The model returned no content for "${section.heading}".`);
+  }
+  return apply(text);
+}
+
+export interface TemplateGenerateOptions extends GenerateOptions {
+  // Called before each request with a short description of the step.
+  onProgress?: (step: string, completed: number, total: number) => void;
+}
+
+export interface TemplateGenerationResult {
+  result: GenerationResult;
+  // Placeholders the model returned no content for; they stay unfilled in the document.
+  emptyPlaceholders: string[];
+}
+
+// Fill a user template one placeholder at a time, then draw a diagram for
+// the finished document.
+export async function generateFromTemplate(
+  prompt: string,
+  template: string,
+  settings: ProviderSettings,
+  { signal, onPartial, onProgress }: TemplateGenerateOptions = {}
+): Promise<TemplateGenerationResult> {
+  const provider = createProvider(settings);
+  const placeholders = extractPlaceholders(template);
+  const values: Record<string, string> = {};
+  const emptyPlaceholders: string[] = [];
+  // One request per placeholder plus one for the diagram
+  const totalSteps = placeholders.length + 1;
+
+  for (const [index, placeholder] of placeholders.entries()) {
+    onProgress?.(`Filling {{ ${placeholder} }}`, index, totalSteps);
+    const text = await provider.complete({
+      messages: buildSectionMessages(prompt, template, placeholder),
+      signal,
+      // An empty reply is how the model says the placeholder does not apply
+      allowEmpty: true,
+    });
+
+    const content = parseSectionResponse(text, placeholder);
+    if (content) {
+      values[placeholder] = content;
+    } else {
+      emptyPlaceholders.push(placeholder);
+    }
+    onPartial?.({ document: fillTemplate(template, values), diagram: '' });
+  }
+
+  const document = fillTemplate(template, values);
+  onProgress?.('Drawing diagram', placeholders.length, totalSteps);
+  const diagramText = await provider.complete({ messages: buildDiagramMessages(prompt, document), signal });
+
+  const diagram = parseDiagramResponse(diagramText);
+  const { architecture, issues } = buildArchitecture({ document, diagrams: [diagram] });
+
+  return {
+    result: { document, diagram, architecture, issues },
+    emptyPlaceholders,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { parseGenerationResponse, parsePartialResponse, serializeResult } from './prompt';
+
+const ANSWER = `# System Architecture: Shop
+
+## Checkout Flow
+\`\`\`mermaid
+sequenceDiagram
+  User->>API: pay
+\`\`\`
+
+## Deployment
+Kubernetes.
+
+\`\`\`mermaid
+graph TB
+  A --> B
+\`\`\`
+
+\`\`\`json
+{ "title": "Shop" }
+\`\`\``;
+
+describe('parseGenerationResponse', () => {
+  it('takes out the main flowchart and the summary and keeps further diagrams inline', () => {
+    const result = parseGenerationResponse(ANSWER);
+
+    expect(result.diagram).toBe('graph TB\n  A --> B');
+    expect(result.document).toContain('## Checkout Flow\n```mermaid\nsequenceDiagram\n  User->>API: pay\n```');
+    expect(result.document).not.toContain('graph TB');
+    expect(result.document).not.toContain('```json');
+    expect(result.architecture?.diagrams.map(diagram => diagram.type)).toEqual(['flowchart', 'sequence']);
+  });
+
+  it('round-trips through serializeResult without duplicating diagrams', () => {
+    const result = parseGenerationResponse(ANSWER);
+    const again = parseGenerationResponse(serializeResult(result));
+
+    expect(again.document).toBe(result.document);
+    expect(again.diagram).toBe(result.diagram);
+    expect(again.architecture?.diagrams).toHaveLength(2);
+  });
+});
+
+describe('parsePartialResponse', () => {
+  it('keeps closed inline diagrams and cuts the document at an open one', () => {
+    const result = parsePartialResponse(
+      '# Shop\n\n## Flow\n```mermaid\nsequenceDiagram\n  A->>B: hi\n```\n\n## Deployment\nK8s\n\n```mermaid\ngraph TB\n  A --'
+    );
+
+    expect(result.diagram).toBe('');
+    expect(result.document).toBe('# Shop\n\n## Flow\n```mermaid\nsequenceDiagram\n  A->>B: hi\n```\n\n## Deployment\nK8s');
+  });
+});
@@ -0,0 +1,210 @@
+import { buildArchitecture } from '@/lib/architecture';
+import { ChatMessage, GenerationResult, LLMProviderError } from './types';
+
+export const ARCHITECTURE_SYSTEM_PROMPT = `You are a senior software architect.
+Given a description of a system, write a system architecture document in Markdown.
+Start with a "# System Architecture: <name>" heading, then use "##" sections such as
+Overview, Components, Technology Stack, Security Considerations, Scalability & Performance
+and Deployment.
+After the document, add a fenced \`\`\`mermaid code block containing a "graph TB"
+diagram of the main components and their interactions. You may add further
+\`\`\`mermaid blocks (e.g. a sequenceDiagram) for important flows.
+Finish with one fenced \`\`\`json block summarising the architecture:
+{
+  "title": string,
+  "components": [{ "id": string, "name": string, "type": string, "description": string, "technology": string }],
+  "relationships": [{ "from": component id, "to": component id, "description": string, "protocol": string }],
+  "technologyStack": [{ "category": string, "name": string, "purpose": string }],
+  "risks": [{ "description": string, "severity": "low" | "medium" | "high", "mitigation": string }],
+  "assumptions": [string]
+}
+Do not add any text after the JSON.`;
+
+export function buildArchitectureMessages(prompt: string): ChatMessage[] {
+  return [
+    { role: 'system', content: ARCHITECTURE_SYSTEM_PROMPT },
+    { role: 'user', content: prompt },
+  ];
+}
+
+const MERMAID_BLOCK = /```mermaid[^\n]*\n([\s\S]*?)```/;
+const MERMAID_BLOCKS = new RegExp(MERMAID_BLOCK.source, 'g');
+const JSON_BLOCK = /```json[^\n]*\n([\s\S]*?)```/;
+// A diagram or summary fence that has not closed yet
+const OPEN_FENCE = /```(?:mermaid|json)[^\n]*\n(?![\s\S]*```)/;
+
+// The main diagram is the first flowchart, which is what the prompt asks
+// for; other diagrams such as sequence diagrams illustrate a single flow.
+// It is taken out of the text so it can be shown and edited on its own.
+function takeMainDiagram(text: string, isComplete = true) {
+  const blocks = Array.from(text.matchAll(MERMAID_BLOCKS));
+  const main = blocks.find(block => /^\s*(graph|flowchart)\b/.test(block[1])) ?? (isComplete ? blocks[0] : undefined);
+  if (!main) return { diagram: '', rest: text, others: [] as string[] };
+  return {
+    diagram: main[1].trim(),
+    rest: text.slice(0, main.index) + text.slice(main.index! + main[0].length),
+    others: blocks.filter(block => block !== main).map(block => block[1].trim()),
+  };
+}
+
+// Split a model answer into the markdown document, its Mermaid diagrams and
+// the structured summary, validated against the architecture schema. Diagrams
+// other than the main one stay in the document, where they render inline.
+export function parseGenerationResponse(text: string): GenerationResult {
+  const { diagram, rest, others } = takeMainDiagram(text);
+  const structured = rest.match(JSON_BLOCK)?.[1];
+  const document = rest.replace(JSON_BLOCK, '').trim();
+
+  if (!document) {
+    throw new LLMProviderError('The model response did not contain a document.');
+  }
+
+  const diagrams = diagram ? [diagram, ...others] : others;
+  const { architecture, issues } = buildArchitecture({ document, diagrams, structured });
+  return { document, diagram, architecture, issues };
+}
+
+// Best-effort parse of an in-progress answer. A diagram is only reported
+// once its fenced block has closed so Mermaid never sees half a graph, and
+// the structured summary is never shown as part of the document. Until the
+// answer is complete a flowchart may still follow, so no other diagram is
+// taken for the main one.
+export function parsePartialResponse(text: string): GenerationResult {
+  const { diagram, rest } = takeMainDiagram(text, false);
+  const withoutSummary = rest.replace(JSON_BLOCK, '');
+  const openFence = withoutSummary.search(OPEN_FENCE);
+  const document = (openFence >= 0 ? withoutSummary.slice(0, openFence) : withoutSummary).trim();
+
+  return { document, diagram };
+}
+
+export const SECTION_SYSTEM_PROMPT = `You are a senior software architect filling in an architecture document template.
+You will be given a system description, the full template and the name of one placeholder.
+Respond with the Markdown content that replaces that placeholder and nothing else:
+no surrounding heading, no code fences, no commentary.
+If the placeholder is a name or title, respond with a short plain phrase.
+If the placeholder does not apply to the system, respond with an empty message.`;
+
+const SECTION_REQUEST = /^System description:\n([\s\S]*?)\n\nTemplate:\n[\s\S]*\n\nPlaceholder: (.+)$/;
+
+export function buildSectionMessages(prompt: string, template: string, placeholder: string): ChatMessage[] {
+  return [
+    { role: 'system', content: SECTION_SYSTEM_PROMPT },
+    { role: 'user', content: `System description:\n${prompt}\n\nTemplate:\n${template}\n\nPlaceholder: ${placeholder}` },
+  ];
+}
+
+export function parseSectionRequest(content: string): { prompt: string; placeholder: string } | null {
+  const match = content.match(SECTION_REQUEST);
+  return match ? { prompt: match[1], placeholder: match[2].trim() } : null;
+}
+
+// Models sometimes wrap a section in a code fence or echo the placeholder
+// despite the instructions; strip both so only the content is substituted.
+export function parseSectionResponse(text: string, placeholder: string): string {
+  return text
+    .trim()
+    .replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, '$1')
+    .replace(new RegExp(`^\\{\\{\\s*${placeholder.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\}\\}:?\\s*`), '')
+    .trim();
+}
+
+export const DIAGRAM_SYSTEM_PROMPT = `You are a senior software architect.
+Given a system description and its architecture document, respond with exactly one fenced
+\`\`\`mermaid code block containing a "graph TB" diagram of the main components and their
+interactions. Do not add any other text.`;
+
+export function buildDiagramMessages(prompt: string, document: string): ChatMessage[] {
+  return [
+    { role: 'system', content: DIAGRAM_SYSTEM_PROMPT },
+    { role: 'user', content: `${prompt}\n\nArchitecture document:\n${document}` },
+  ];
+}
+
+export function parseDiagramResponse(text: string): string {
+  const match = text.match(MERMAID_BLOCK);
+  return (match ? match[1] : text).trim();
+}
+
+// Render a result back into the answer format the architecture prompt asks
+// for, so a model can be shown its previous answer and revise it.
+// The main diagram goes first after the document, so it parses back as the
+// main diagram; further diagrams are already part of the document.
+export function serializeResult(result: GenerationResult): string {
+  const parts = [result.document];
+  if (result.diagram) parts.push(`\`\`\`mermaid\n${result.diagram}\n\`\`\``);
+
+  if (result.architecture) {
+    const { title, components, relationships, technologyStack, risks, assumptions } = result.architecture;
+    const structured = { title, components, relationships, technologyStack, risks, assumptions };
+    parts.push(`\`\`\`json\n${JSON.stringify(structured, null, 2)}\n\`\`\``);
+  }
+
+  return parts.join('\n\n');
+}
+
+export const REFINE_SYSTEM_PROMPT = `${ARCHITECTURE_SYSTEM_PROMPT}
+
+You previously produced the architecture in the assistant message. The user now asks
+for a change. Apply exactly that change, keep everything else as it was, and respond
+with the complete revised answer in the same format.`;
+
+export const TEMPLATE_REFINE_SYSTEM_PROMPT = `You are a senior software architect.
+You previously filled in the user's architecture document template; the filled document is in
+the assistant message. The user now asks for a change. Apply exactly that change and keep
+everything else as it was. Keep the template's headings and structure: do not rename, reorder,
+add or remove its sections. Respond with the complete revised document in Markdown, followed by
+one fenced \`\`\`mermaid code block with the "graph TB" diagram of the main components.
+Do not add any other text.`;
+
+// Results filled from a template are refined against that template, so its
+// headings survive follow-ups instead of turning into the default format.
+export function buildRefinementMessages(
+  prompt: string,
+  current: GenerationResult,
+  instruction: string,
+  template?: string | null
+): ChatMessage[] {
+  return [
+    { role: 'system', content: template ? TEMPLATE_REFINE_SYSTEM_PROMPT : REFINE_SYSTEM_PROMPT },
+    { role: 'user', content: template ? `System description:\n${prompt}\n\nTemplate:\n${template}` : prompt },
+    { role: 'assistant', content: serializeResult(template ? { ...current, architecture: undefined } : current) },
+    { role: 'user', content: instruction },
+  ];
+}
+
+export const SECTION_REWRITE_SYSTEM_PROMPT = `You are a senior software architect revising one section of an
+architecture document. You will be given the system description, the full document, the heading
+of the section to rewrite and an instruction.
+Respond with the new Markdown content of that section only: do not repeat the section heading,
+do not wrap the answer in a code fence and do not add commentary. Subsection headings are allowed.`;
+
+const SECTION_REWRITE_REQUEST = /^System description:\n([\s\S]*?)\n\nDocument:\n([\s\S]*)\n\nSection: (.+)\nInstruction: ([\s\S]*)$/;
+
+export function buildSectionRewriteMessages(
+  prompt: string,
+  document: string,
+  heading: string,
+  instruction: string
+): ChatMessage[] {
+  return [
+    { role: 'system', content: SECTION_REWRITE_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `System description:\n${prompt}\n\nDocument:\n${document}\n\nSection: ${heading}\nInstruction: ${instruction || 'Improve this section.'}`,
+    },
+  ];
+}
+
+export function parseSectionRewriteRequest(content: string) {
+  const match = content.match(SECTION_REWRITE_REQUEST);
+  return match ? { prompt: match[1], document: match[2], heading: match[3], instruction: match[4] } : null;
+}
+
+export function parseSectionRewriteResponse(text: string, heading: string): string {
+  const unfenced = text.trim().replace(/^```(?:markdown|md)?\n([\s\S]*?)\n```$/, '$1');
+  const lines = unfenced.split('\n');
+  const echoed = lines[0]?.match(/^#{1,6}\s+(.+?)\s*#*$/);
+  if (echoed && echoed[1].toLowerCase() === heading.toLowerCase()) lines.shift();
+  return lines.join('\n').trim();
+}
@@ -0,0 +1,63 @@
+import { parseStreamChunk, postForEvents, postJson, joinUrl } from '../http';
+import { ChatMessage, LLMProvider, LLMProviderError, ProviderSettings } from '../types';
+
+interface MessagesResponse {
+  content?: { type: string; text?: string }[];
+}
+
+interface MessagesStreamEvent {
+  type: string;
+  delta?: { type: string; text?: string };
+  error?: { message?: string };
+}
+
+const MAX_TOKENS = 4096;
+
+export function createAnthropicProvider(settings: ProviderSettings): LLMProvider {
+  const url = joinUrl(settings.baseUrl, 'v1/messages');
+  const headers = {
+    'x-api-key': settings.apiKey,
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+
+  // The Messages API takes the system prompt as a top-level field
+  const buildBody = (messages: ChatMessage[], stream: boolean) => ({
+    model: settings.model,
+    max_tokens: MAX_TOKENS,
+    temperature: settings.temperature,
+    system: messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n'),
+    messages: messages.filter(m => m.role !== 'system'),
+    stream,
+  });
+
+  return {
+    id: 'anthropic',
+    async complete({ messages, signal, allowEmpty }) {
+      const data = await postJson<MessagesResponse>(url, buildBody(messages, false), headers, signal);
+
+      const content = (data.content ?? [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text ?? '')
+        .join('');
+      if (!content && !allowEmpty) throw new LLMProviderError('The model returned an empty response.');
+      return content ?? '';
+    },
+    async stream({ messages, signal, onDelta }) {
+      let content = '';
+      await postForEvents(url, buildBody(messages, true), headers, data => {
+        const event = parseStreamChunk<MessagesStreamEvent>(data, 'Anthropic');
+        if (event.type === 'error') {
+          throw new LLMProviderError(event.error?.message ?? 'The model stream failed.');
+        }
+        if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+          content += event.delta.text;
+          onDelta(event.delta.text);
+        }
+      }, signal);
+
+      if (!content) throw new LLMProviderError('The model returned an empty response.');
+      return content;
+    },
+  };
+}
@@ -0,0 +1,249 @@
+import {
+  DIAGRAM_SYSTEM_PROMPT,
+  REFINE_SYSTEM_PROMPT,
+  SECTION_REWRITE_SYSTEM_PROMPT,
+  TEMPLATE_REFINE_SYSTEM_PROMPT,
+  SECTION_SYSTEM_PROMPT,
+  parseGenerationResponse,
+  parseSectionRequest,
+  parseSectionRewriteRequest,
+  serializeResult,
+} from '../prompt';
+import { getSectionText, slugify } from '@/lib/architecture';
+import { ChatMessage, LLMProvider } from '../types';
+
+const RESPONSE_DELAY_MS = 600;
+const STREAM_CHUNK_SIZE = 24;
+const STREAM_CHUNK_DELAY_MS = 25;
+
+// Keyword -> component the offline provider adds to its answer, so the
+// output still follows what was typed without any network access.
+const COMPONENT_HINTS: { pattern: RegExp; name: string; tech: string }[] = [
+  { pattern: /auth|login|user/i, name: 'Authentication Service', tech: 'OAuth 2.0 / OIDC' },
+  { pattern: /payment|checkout|billing/i, name: 'Payment Service', tech: 'Stripe API' },
+  { pattern: /notif|push|email/i, name: 'Notification Service', tech: 'WebPush, SMTP' },
+  { pattern: /real-?time|websocket|chat/i, name: 'Realtime Gateway', tech: 'WebSockets' },
+  { pattern: /search|catalog/i, name: 'Search Service', tech: 'OpenSearch' },
+  { pattern: /machine learning|\bml\b|recommend/i, name: 'Recommendation Engine', tech: 'Python, PyTorch' },
+  { pattern: /video|stream|media|transcod/i, name: 'Media Pipeline', tech: 'FFmpeg workers' },
+  { pattern: /iot|sensor|device/i, name: 'Device Ingestion', tech: 'MQTT broker' },
+  { pattern: /analytic|dashboard|monitor/i, name: 'Analytics Service', tech: 'ClickHouse' },
+  { pattern: /queue|event|kafka/i, name: 'Event Bus', tech: 'Apache Kafka' },
+];
+
+const slug = (name: string) => name.replace(/[^A-Za-z0-9]/g, '');
+
+const systemTitle = (prompt: string) => prompt.trim().split(/\s+/).slice(0, 4).join(' ') || 'Untitled System';
+
+const matchServices = (prompt: string) => {
+  const matched = COMPONENT_HINTS.filter(hint => hint.pattern.test(prompt));
+  return matched.length > 0 ? matched : [COMPONENT_HINTS[0]];
+};
+
+function buildFakeDiagram(prompt: string): string {
+  const services = matchServices(prompt);
+  return [
+    'graph TB',
+    '    Client[Web Client] --> Gateway[API Gateway]',
+    ...services.map(s => `    Gateway --> ${slug(s.name)}[${s.name}]`),
+    ...services.map(s => `    ${slug(s.name)} --> DB[(Primary Database)]`),
+  ].join('\n');
+}
+
+function buildFakeResponse(prompt: string): string {
+  const services = matchServices(prompt);
+
+  const document = [
+    `# System Architecture: ${systemTitle(prompt)}`,
+    '',
+    '## Overview',
+    `This document describes the architecture for: ${prompt.trim()}`,
+    '',
+    '## Components',
+    '- Web Client',
+    '- API Gateway',
+    ...services.map(s => `- ${s.name}`),
+    '- Primary Database',
+    '',
+    '## Technology Stack',
+    '- Frontend: React, TypeScript',
+    '- Gateway: NGINX',
+    ...services.map(s => `- ${s.name}: ${s.tech}`),
+    '- Database: PostgreSQL',
+    '',
+    '## Deployment',
+    'Services are packaged as containers and deployed to Kubernetes behind a load balancer.',
+  ].join('\n');
+
+  const structured = {
+    title: systemTitle(prompt),
+    components: [
+      { id: 'client', name: 'Web Client', type: 'frontend', technology: 'React' },
+      { id: 'gateway', name: 'API Gateway', type: 'gateway', technology: 'NGINX' },
+      ...services.map(s => ({ id: slug(s.name), name: s.name, type: 'service', technology: s.tech })),
+      { id: 'db', name: 'Primary Database', type: 'database', technology: 'PostgreSQL' },
+    ],
+    relationships: [
+      { from: 'client', to: 'gateway', protocol: 'HTTPS' },
+      ...services.flatMap(s => [
+        { from: 'gateway', to: slug(s.name), protocol: 'HTTP' },
+        { from: slug(s.name), to: 'db', protocol: 'SQL' },
+      ]),
+    ],
+    technologyStack: [
+      { category: 'Frontend', name: 'React' },
+      { category: 'Gateway', name: 'NGINX' },
+      ...services.map(s => ({ category: s.name, name: s.tech })),
+      { category: 'Database', name: 'PostgreSQL' },
+    ],
+    risks: [
+      { description: 'The primary database is a single point of failure', severity: 'medium', mitigation: 'Run a hot standby replica' },
+    ],
+    assumptions: ['Traffic fits within a single region'],
+  };
+
+  return [
+    document,
+    '',
+    '```mermaid',
+    buildFakeDiagram(prompt),
+    '```',
+    '',
+    '```json',
+    JSON.stringify(structured, null, 2),
+    '```',
+    '',
+  ].join('\n');
+}
+
+function buildFakeSection(prompt: string, placeholder: string): string {
+  const services = matchServices(prompt);
+  const topic = placeholder.replace(/[_-]+/g, ' ').toLowerCase();
+
+  if (/name|title/.test(topic)) return systemTitle(prompt);
+  if (/stack|tech/.test(topic)) return services.map(s => `- ${s.name}: ${s.tech}`).join('\n');
+  if (/overview|summary/.test(topic)) return `This document describes the architecture for: ${prompt.trim()}`;
+
+  return [
+    `The ${topic} approach for ${systemTitle(prompt)} covers:`,
+    ...services.map(s => `- ${s.name}`),
+  ].join('\n');
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const titleCase = (text: string) => text.replace(/\b\w/g, letter => letter.toUpperCase());
+
+// Insert a bullet at the end of the first "Components" section, or add the section.
+function addComponentBullet(document: string, name: string): string {
+  const lines = document.split('\n');
+  const heading = lines.findIndex(line => /^#{2,3}\s+.*component/i.test(line));
+  if (heading < 0) return `${document}\n\n## Components\n- ${name}`;
+
+  let insertAt = heading + 1;
+  for (let i = heading + 1; i < lines.length && !/^#{1,6}\s/.test(lines[i]); i++) {
+    if (/^\s*[-*+]\s/.test(lines[i])) insertAt = i + 1;
+  }
+  lines.splice(insertAt, 0, `- ${name}`);
+  return lines.join('\n');
+}
+
+// Understands "swap/replace X for/with Y" and "add Z"; anything else is
+// recorded under a revision notes section.
+function applyFakeRefinement(answer: string, instruction: string): string {
+  const clauses = instruction.split(/\s+and\s+|[,;]\s*/i).map(c => c.trim().replace(/\.$/, '')).filter(Boolean);
+  const additions: string[] = [];
+  const notes: string[] = [];
+  let text = answer;
+
+  for (const clause of clauses) {
+    const swap = clause.match(/^(?:swap|replace)\s+(.+?)\s+(?:for|with)\s+(.+)$/i);
+    const add = clause.match(/^add\s+(?:an?\s+|the\s+)?(.+)$/i);
+    if (swap) {
+      text = text.replace(new RegExp(escapeRegExp(swap[1]), 'gi'), swap[2]);
+    } else if (add) {
+      additions.push(titleCase(add[1]));
+    } else {
+      notes.push(clause);
+    }
+  }
+
+  const result = parseGenerationResponse(text);
+  for (const name of additions) {
+    result.document = addComponentBullet(result.document, name);
+    result.diagram = `${result.diagram}\n    ${slug(name)}[${name}]`;
+    result.architecture?.components.push({ id: slug(name), name });
+  }
+  if (notes.length > 0) {
+    result.document = `${result.document}\n\n## Revision Notes\n${notes.map(note => `- ${note}`).join('\n')}`;
+  }
+
+  return serializeResult(result);
+}
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const lastUserContent = (messages: ChatMessage[]) =>
+  [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+// Answer according to the task the system prompt describes, as a real model would.
+function respond(messages: ChatMessage[]): string {
+  const system = messages.find(m => m.role === 'system')?.content;
+  const user = lastUserContent(messages);
+
+  switch (system) {
+    case SECTION_SYSTEM_PROMPT: {
+      const request = parseSectionRequest(user);
+      return request ? buildFakeSection(request.prompt, request.placeholder) : '';
+    }
+    case REFINE_SYSTEM_PROMPT:
+    case TEMPLATE_REFINE_SYSTEM_PROMPT: {
+      const previous = [...messages].reverse().find(m => m.role === 'assistant')?.content ?? '';
+      return applyFakeRefinement(previous, user);
+    }
+    case SECTION_REWRITE_SYSTEM_PROMPT: {
+      const request = parseSectionRewriteRequest(user);
+      if (!request) return '';
+      const existing = getSectionText(request.document, slugify(request.heading)) ?? '';
+      return `${existing}\n\n- Revised for ${systemTitle(request.prompt)}: ${request.instruction}`.trim();
+    }
+    case DIAGRAM_SYSTEM_PROMPT:
+      return `\`\`\`mermaid\n${buildFakeDiagram(user)}\n\`\`\``;
+    default:
+      return buildFakeResponse(user);
+  }
+}
+
+// Deterministic offline provider: the same prompt always yields the same answer.
+export function createFakeProvider(): LLMProvider {
+  return {
+    id: 'fake',
+    async complete({ messages, signal }) {
+      await wait(RESPONSE_DELAY_MS, signal);
+      return respond(messages);
+    },
+    async stream({ messages, signal, onDelta }) {
+      const content = respond(messages);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        await wait(STREAM_CHUNK_DELAY_MS, signal);
+        onDelta(content.slice(i, i + STREAM_CHUNK_SIZE));
+      }
+      return content;
+    },
+  };
+}
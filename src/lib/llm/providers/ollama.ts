@@ -0,0 +1,46 @@
+import { parseStreamChunk, postForLines, postJson, joinUrl } from '../http';
+import { ChatMessage, LLMProvider, LLMProviderError, ProviderSettings } from '../types';
+
+interface OllamaChatResponse {
+  message?: { content?: string };
+  error?: string;
+}
+
+export function createOllamaProvider(settings: ProviderSettings): LLMProvider {
+  const url = joinUrl(settings.baseUrl, 'api/chat');
+
+  const buildBody = (messages: ChatMessage[], stream: boolean) => ({
+    model: settings.model,
+    messages,
+    stream,
+    options: { temperature: settings.temperature },
+  });
+
+  return {
+    id: 'ollama',
+    async complete({ messages, signal, allowEmpty }) {
+      const data = await postJson<OllamaChatResponse>(url, buildBody(messages, false), {}, signal);
+
+      const content = data.message?.content;
+      if (!content && !allowEmpty) throw new LLMProviderError('The model returned an empty response.');
+      return content ?? '';
+    },
+    async stream({ messages, signal, onDelta }) {
+      // Ollama streams newline-delimited JSON rather than server-sent events
+      let content = '';
+      await postForLines(url, buildBody(messages, true), {}, line => {
+        if (!line.trim()) return;
+        const chunk = parseStreamChunk<OllamaChatResponse>(line, 'Ollama');
+        if (chunk.error) throw new LLMProviderError(chunk.error);
+        const delta = chunk.message?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }, signal);
+
+      if (!content) throw new LLMProviderError('The model returned an empty response.');
+      return content;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { parseStreamChunk, postForEvents, postJson, joinUrl } from '../http';
+import { LLMProvider, LLMProviderError, ProviderSettings } from '../types';
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string } }[];
+}
+
+// Works with OpenAI and any server exposing /chat/completions
+// (llama.cpp server, vLLM, LM Studio, the bundled mock server).
+export function createOpenAIProvider(settings: ProviderSettings): LLMProvider {
+  const url = joinUrl(settings.baseUrl, 'chat/completions');
+  const headers: Record<string, string> = {};
+  if (settings.apiKey) headers.Authorization = `Bearer ${settings.apiKey}`;
+
+  return {
+    id: 'openai',
+    async complete({ messages, signal, allowEmpty }) {
+      const data = await postJson<ChatCompletionResponse>(
+        url,
+        { model: settings.model, messages, temperature: settings.temperature },
+        headers,
+        signal
+      );
+
+      const content = data.choices?.[0]?.message?.content;
+      if (!content && !allowEmpty) throw new LLMProviderError('The model returned an empty response.');
+      return content ?? '';
+    },
+    async stream({ messages, signal, onDelta }) {
+      let content = '';
+      await postForEvents(
+        url,
+        { model: settings.model, messages, temperature: settings.temperature, stream: true },
+        headers,
+        data => {
+          if (data === '[DONE]') return;
+          const delta = parseStreamChunk<ChatCompletionChunk>(data, 'The OpenAI-compatible server').choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+        },
+        signal
+      );
+
+      if (!content) throw new LLMProviderError('The model returned an empty response.');
+      return content;
+    },
+  };
+}
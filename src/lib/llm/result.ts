@@ -0,0 +1,31 @@
+import { detectDiagramType, parseSections, preserveSections } from '@/lib/architecture';
+import { GenerationResult } from './types';
+
+// Swap in a new document, keeping the structured sections in step with it.
+export function withDocument(result: GenerationResult, document: string): GenerationResult {
+  return {
+    ...result,
+    document,
+    architecture: result.architecture && { ...result.architecture, sections: parseSections(document) },
+  };
+}
+
+// Swap in an edited diagram. The first structured diagram is the one shown.
+export function withDiagram(result: GenerationResult, diagram: string): GenerationResult {
+  return {
+    ...result,
+    diagram,
+    architecture: result.architecture && {
+      ...result.architecture,
+      diagrams: result.architecture.diagrams.map((entry, index) =>
+        index === 0 ? { ...entry, source: diagram, type: detectDiagramType(diagram) } : entry
+      ),
+    },
+  };
+}
+
+// Carry locked sections over from the result a rewrite started from.
+export function keepLockedSections(previous: GenerationResult, next: GenerationResult, lockedIds: string[]): GenerationResult {
+  if (lockedIds.length === 0) return next;
+  return withDocument(next, preserveSections(previous.document, next.document, lockedIds));
+}
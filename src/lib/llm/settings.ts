@@ -0,0 +1,76 @@
+import { ProviderId, ProviderSettings } from './types';
+
+const STORAGE_KEY = 'llm-provider-settings';
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    description: 'OpenAI, llama.cpp server, vLLM, LM Studio or the bundled mock server (npm run mock-llm).',
+  },
+  {
+    id: 'anthropic',
+    label: 'Anthropic',
+    description: 'Anthropic Messages API.',
+  },
+  {
+    id: 'ollama',
+    label: 'Ollama (local)',
+    description: 'A local Ollama instance. Start it with OLLAMA_ORIGINS set to allow this page.',
+  },
+  {
+    id: 'fake',
+    label: 'Offline (deterministic)',
+    description: 'Built-in generator for demos and offline use. No network requests are made.',
+  },
+];
+
+export const PROVIDER_DEFAULTS: Record<ProviderId, ProviderSettings> = {
+  openai: {
+    provider: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    model: 'gpt-4o-mini',
+    apiKey: '',
+    temperature: 0.3,
+  },
+  anthropic: {
+    provider: 'anthropic',
+    baseUrl: 'https://api.anthropic.com',
+    model: 'claude-3-5-sonnet-latest',
+    apiKey: '',
+    temperature: 0.3,
+  },
+  ollama: {
+    provider: 'ollama',
+    baseUrl: 'http://localhost:11434',
+    model: 'llama3.1',
+    apiKey: '',
+    temperature: 0.3,
+  },
+  fake: {
+    provider: 'fake',
+    baseUrl: '',
+    model: 'offline',
+    apiKey: '',
+    temperature: 0,
+  },
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<ProviderSettings>;
+      if (parsed.provider && parsed.provider in PROVIDER_DEFAULTS) {
+        return { ...PROVIDER_DEFAULTS[parsed.provider], ...parsed };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading provider settings:', error);
+  }
+  return PROVIDER_DEFAULTS.fake;
+}
+
+export function saveProviderSettings(settings: ProviderSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
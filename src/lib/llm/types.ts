@@ -0,0 +1,52 @@
+import type { Architecture } from '@/lib/architecture';
+
+export interface GenerationResult {
+  document: string;
+  // Primary Mermaid diagram, kept out of the document; further diagrams stay
+  // inline in the document. Every diagram is also in architecture.diagrams
+  diagram: string;
+  // Structured view of the document; absent while a result is still streaming
+  architecture?: Architecture;
+  // Validation problems found in the model output, e.g. `risks[1].severity: ...`
+  issues?: string[];
+}
+
+export type ProviderId = 'openai' | 'anthropic' | 'ollama' | 'fake';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+  temperature: number;
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+  // Resolve with '' instead of failing when the model answers with nothing
+  allowEmpty?: boolean;
+}
+
+export interface StreamRequest extends CompletionRequest {
+  onDelta: (delta: string) => void;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  complete(request: CompletionRequest): Promise<string>;
+  // Resolves with the full text once the stream ends; onDelta receives each chunk.
+  stream(request: StreamRequest): Promise<string>;
+}
+
+export class LLMProviderError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
@@ -0,0 +1,49 @@
+import { Marked } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// CommonMark + GFM (tables, task lists, strikethrough, autolinks). Fenced code
+// is highlighted up front; ```mermaid blocks are left as plain code for the
+// viewer to swap for rendered diagrams.
+const marked = new Marked({
+  gfm: true,
+  renderer: {
+    code({ text, lang }) {
+      const language = (lang ?? '').trim().split(/\s+/)[0].toLowerCase();
+      if (language === 'mermaid') {
+        return `<pre class="mermaid-source"><code class="language-mermaid">${escapeHtml(text)}</code></pre>`;
+      }
+      const highlighted = language && hljs.getLanguage(language)
+        ? hljs.highlight(text, { language, ignoreIllegals: true }).value
+        : escapeHtml(text);
+      return `<pre><code class="hljs${language ? ` language-${escapeHtml(language)}` : ''}">${highlighted}</code></pre>`;
+    },
+  },
+});
+
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+  if (node.tagName === 'A' && node.getAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer');
+  }
+});
+
+// Every link reference definition in a document, written out again as
+// markdown. Rendering a part of the document with these appended resolves
+// reference-style links whose definition lives in another part.
+export function linkDefinitions(markdown: string): string {
+  return Object.entries(marked.lexer(markdown).links)
+    .map(([label, { href, title }]) => `[${label}]: <${href}>${title ? ` "${title.replace(/"/g, '\\"')}"` : ''}`)
+    .join('\n');
+}
+
+// Markdown to sanitized HTML. Model output is untrusted, so raw HTML in the
+// document goes through DOMPurify like everything else. `definitions` are
+// link reference definitions from the rest of the document, if any.
+export function renderMarkdownToHtml(markdown: string, definitions = ''): string {
+  const html = marked.parse(definitions ? `${markdown}\n\n${definitions}` : markdown, { async: false }) as string;
+  return DOMPurify.sanitize(html, { ADD_ATTR: ['target'] });
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { diffGraphs, edgeElementPattern, nodeElementPattern, parseFlowchart } from './mermaid-graph';
+
+describe('parseFlowchart', () => {
+  it('reads nodes, labels and chained edges', () => {
+    const graph = parseFlowchart('graph TD\n  A[Web App] -->|HTTPS| B(API) --> C[(Database)]\n  B -- publishes --> D');
+
+    expect(graph.nodes).toEqual([
+      { id: 'A', label: 'Web App' },
+      { id: 'B', label: 'API' },
+      { id: 'C', label: 'Database' },
+      { id: 'D', label: 'D' },
+    ]);
+    expect(graph.edges).toEqual([
+      { from: 'A', to: 'B', label: 'HTTPS' },
+      { from: 'B', to: 'C', label: '' },
+      { from: 'B', to: 'D', label: 'publishes' },
+    ]);
+  });
+
+  it('expands & groups and skips styling statements', () => {
+    const graph = parseFlowchart('flowchart LR\n  classDef hot fill:#f00\n  A & B --> C; style C fill:#0f0');
+    expect(graph.edges.map(edge => `${edge.from}->${edge.to}`)).toEqual(['A->C', 'B->C']);
+  });
+
+  it('returns an empty graph for other diagram types', () => {
+    expect(parseFlowchart('sequenceDiagram\n  A->>B: hi')).toEqual({ nodes: [], edges: [] });
+  });
+});
+
+describe('diffGraphs', () => {
+  it('reports added, removed and relabeled nodes and edges', () => {
+    const before = parseFlowchart('graph TD\n  A[Web] --> B[API]\n  B --> C');
+    const after = parseFlowchart('graph TD\n  A[Web] --> B[Gateway]\n  B --> D');
+    const diff = diffGraphs(before, after);
+
+    expect(diff.addedNodes.map(node => node.id)).toEqual(['D']);
+    expect(diff.removedNodes.map(node => node.id)).toEqual(['C']);
+    expect(diff.relabeledNodes).toEqual([{ id: 'B', before: 'API', after: 'Gateway' }]);
+    expect(diff.addedEdges).toEqual([{ from: 'B', to: 'D', label: '' }]);
+    expect(diff.removedEdges).toEqual([{ from: 'B', to: 'C', label: '' }]);
+  });
+});
+
+describe('element patterns', () => {
+  it('matches a node id exactly', () => {
+    const pattern = nodeElementPattern('api');
+    expect(pattern.test('flowchart-api-3')).toBe(true);
+    expect(pattern.test('mermaid-1-flowchart-api-3')).toBe(true);
+    expect(pattern.test('flowchart-api-gw-3')).toBe(false);
+  });
+
+  it('matches an edge by both endpoints', () => {
+    const pattern = edgeElementPattern({ from: 'b', to: 'c', label: '' });
+    expect(pattern.test('L_b_c_0')).toBe(true);
+    expect(pattern.test('L_a_b_c_0')).toBe(false);
+    expect(edgeElementPattern({ from: 'a', to: 'b', label: '' }).test('x-L_a_b_12')).toBe(true);
+  });
+});
@@ -0,0 +1,137 @@
+// Minimal reader for Mermaid flowcharts ("graph"/"flowchart"), enough to
+// compare two diagrams structurally. Other diagram types yield an empty graph.
+
+export interface GraphNode {
+  id: string;
+  label: string;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface FlowchartGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphDiff {
+  addedNodes: GraphNode[];
+  removedNodes: GraphNode[];
+  // Same id on both sides but a different label
+  relabeledNodes: { id: string; before: string; after: string }[];
+  addedEdges: GraphEdge[];
+  removedEdges: GraphEdge[];
+}
+
+const SKIPPED_STATEMENT = /^(graph|flowchart|subgraph|end|classDef|class|style|linkStyle|click|direction|%%)\b/;
+
+// `A -- text --> B`, `A -. text .-> B` and `A == text ==> B` are rewritten to
+// the `A -->|text| B` form so there is only one label syntax to handle.
+const INLINE_LABEL = /\s(--|-\.|==)\s+([^|]+?)\s+(-->|\.->|==>|---)\s/g;
+const LINK = /\s*<?(?:-{2,}>?|={2,}>?|-\.+->?)[ox]?(?:\|([^|]*)\|)?\s*/;
+const NODE = /^([\w.-]+)\s*(?:(\[\[|\[\(|\(\(|\[\/|\[\\|\{\{|\[|\(|\{|>)(.*?)(\]\]|\)\]|\)\)|\/\]|\\\]|\}\}|\]|\)|\}))?(?::::[\w-]+)?$/;
+
+const cleanLabel = (label: string) => label.trim().replace(/^"(.*)"$/, '$1');
+
+export function parseFlowchart(source: string): FlowchartGraph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  const readNodes = (expression: string) =>
+    expression.split('&').flatMap(part => {
+      const match = part.trim().match(NODE);
+      if (!match) return [];
+      const [, id, , label] = match;
+      const existing = nodes.get(id);
+      if (!existing || (label !== undefined && existing.label === existing.id)) {
+        nodes.set(id, { id, label: label !== undefined ? cleanLabel(label) : id });
+      }
+      return [id];
+    });
+
+  const lines = source.split('\n');
+  if (!/^\s*(graph|flowchart)\b/.test(lines.find(line => line.trim()) ?? '')) {
+    return { nodes: [], edges: [] };
+  }
+
+  for (const rawLine of lines) {
+    for (const statement of rawLine.split(';')) {
+      const line = ` ${statement.trim()} `.replace(INLINE_LABEL, ' $3|$2| ').trim();
+      if (!line || SKIPPED_STATEMENT.test(line)) continue;
+
+      // Splitting on a pattern with one capture group alternates node
+      // expressions and link labels: [nodes, label, nodes, label, nodes, ...]
+      const parts = line.split(new RegExp(LINK.source));
+      let previous = readNodes(parts[0]);
+      for (let index = 1; index + 1 < parts.length; index += 2) {
+        const label = cleanLabel(parts[index] ?? '');
+        const current = readNodes(parts[index + 1]);
+        previous.forEach(from => current.forEach(to => edges.push({ from, to, label })));
+        previous = current;
+      }
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges };
+}
+
+const edgeKey = (edge: GraphEdge) => `${edge.from}->${edge.to}`;
+
+export function diffGraphs(before: FlowchartGraph, after: FlowchartGraph): GraphDiff {
+  const beforeNodes = new Map(before.nodes.map(node => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map(node => [node.id, node]));
+  const beforeEdges = new Set(before.edges.map(edgeKey));
+  const afterEdges = new Set(after.edges.map(edgeKey));
+
+  return {
+    addedNodes: after.nodes.filter(node => !beforeNodes.has(node.id)),
+    removedNodes: before.nodes.filter(node => !afterNodes.has(node.id)),
+    relabeledNodes: after.nodes
+      .filter(node => beforeNodes.has(node.id) && beforeNodes.get(node.id)!.label !== node.label)
+      .map(node => ({ id: node.id, before: beforeNodes.get(node.id)!.label, after: node.label })),
+    addedEdges: after.edges.filter(edge => !beforeEdges.has(edgeKey(edge))),
+    removedEdges: before.edges.filter(edge => !afterEdges.has(edgeKey(edge))),
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Mermaid gives node groups ids like `flowchart-<id>-<n>` and edge paths ids
+// like `L_<from>_<to>_<n>`, possibly after a `<diagram id>-` prefix. The whole
+// id has to match, so node `api` does not also pick up `api-gw`.
+export const nodeElementPattern = (id: string) =>
+  new RegExp(`(?:^|-)flowchart-${escapeRegExp(id)}-\\d+$`);
+
+export const edgeElementPattern = (edge: GraphEdge) =>
+  new RegExp(`(?:^|-)L_${escapeRegExp(edge.from)}_${escapeRegExp(edge.to)}_\\d+$`);
+
+// Outline nodes and edges of a rendered Mermaid flowchart.
+export function highlightGraphElements(
+  svgRoot: Element,
+  { nodes, edges }: { nodes: string[]; edges: GraphEdge[] },
+  color: string
+) {
+  const groups = Array.from(svgRoot.querySelectorAll('g[id]'));
+  const paths = Array.from(svgRoot.querySelectorAll('path[id]'));
+
+  nodes.forEach(id => {
+    const pattern = nodeElementPattern(id);
+    groups.filter(group => pattern.test(group.id)).forEach(group => {
+      group.querySelectorAll('rect, circle, ellipse, polygon, path').forEach(shape => {
+        (shape as SVGElement).style.stroke = color;
+        (shape as SVGElement).style.strokeWidth = '3px';
+      });
+    });
+  });
+
+  edges.forEach(edge => {
+    const pattern = edgeElementPattern(edge);
+    paths.filter(path => pattern.test(path.id)).forEach(path => {
+      (path as SVGElement).style.stroke = color;
+      (path as SVGElement).style.strokeWidth = '3px';
+    });
+  });
+}
@@ -0,0 +1,70 @@
+import mermaid from 'mermaid';
+
+let initialized = false;
+let renderCount = 0;
+
+export function initializeMermaid() {
+  if (initialized) return;
+  mermaid.initialize({
+    startOnLoad: false,
+    theme: 'dark',
+    themeVariables: {
+      primaryColor: 'hsl(217, 91%, 60%)',
+      primaryTextColor: 'hsl(220, 9%, 97%)',
+      primaryBorderColor: 'hsl(217, 91%, 60%)',
+      lineColor: 'hsl(220, 13%, 20%)',
+      secondaryColor: 'hsl(220, 13%, 15%)',
+      tertiaryColor: 'hsl(220, 13%, 18%)',
+      background: 'hsl(220, 13%, 9%)',
+      mainBkg: 'hsl(220, 13%, 11%)',
+      secondBkg: 'hsl(220, 13%, 15%)',
+      tertiaryBkg: 'hsl(220, 13%, 18%)',
+    }
+  });
+  initialized = true;
+}
+
+// Render Mermaid source to an SVG string. Every call gets its own element id
+// so several diagrams can be on the page at once.
+export async function renderMermaid(source: string): Promise<string> {
+  initializeMermaid();
+  // Validate first: a failed render can leave its scratch element in the page
+  await mermaid.parse(source);
+  renderCount += 1;
+  const { svg } = await mermaid.render(`mermaid-diagram-${renderCount}`, source);
+  return svg;
+}
+
+// Exports land on white paper and go through a canvas or svg2pdf, neither of
+// which handles HTML labels, so they get a light theme and plain SVG text.
+const EXPORT_CONFIG = {
+  theme: 'base',
+  htmlLabels: false,
+  flowchart: { htmlLabels: false },
+  themeVariables: {
+    primaryColor: 'hsl(214, 95%, 93%)',
+    primaryTextColor: 'hsl(222, 47%, 11%)',
+    primaryBorderColor: 'hsl(217, 91%, 60%)',
+    lineColor: 'hsl(215, 16%, 47%)',
+    secondaryColor: 'hsl(210, 40%, 96%)',
+    tertiaryColor: 'hsl(0, 0%, 100%)',
+    background: 'hsl(0, 0%, 100%)',
+    mainBkg: 'hsl(214, 95%, 93%)',
+    secondBkg: 'hsl(210, 40%, 96%)',
+    tertiaryBkg: 'hsl(0, 0%, 100%)',
+  },
+};
+
+// Render to a detached SVG element styled for print, for exports that should
+// not depend on the diagram tab being mounted.
+export async function renderMermaidForExport(source: string): Promise<SVGSVGElement> {
+  const svg = await renderMermaid(`%%{init: ${JSON.stringify(EXPORT_CONFIG)}}%%\n${source}`);
+  return new DOMParser().parseFromString(svg, 'image/svg+xml').documentElement as unknown as SVGSVGElement;
+}
+
+export const MERMAID_ERROR_HTML = `
+  <div class="p-4 text-center text-muted-foreground">
+    <p>Error rendering diagram</p>
+    <p class="text-sm">Please check the Mermaid syntax</p>
+  </div>
+`;
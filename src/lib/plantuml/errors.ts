@@ -0,0 +1,64 @@
+import { PlantUMLSyntaxError } from './types';
+
+const LINE_PATTERNS = [/\(line:?\s*(\d+)\)/i, /\bline:?\s*(\d+)/i];
+
+// Lines of text drawn in PlantUML's error image, in document order.
+function svgTextLines(svg: string): string[] {
+  const doc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  return Array.from(doc.querySelectorAll('text'))
+    .map(node => (node.textContent ?? '').trim())
+    .filter(Boolean);
+}
+
+// PlantUML numbers lines from its own block and the server header is zero
+// based, so the reported number can be off by a little. Prefer the nearest
+// line whose text matches the source line quoted in the error image.
+function resolveLine(source: string, reported: number | undefined, quoted: string | undefined) {
+  const lines = source.split('\n');
+  if (quoted) {
+    const matches = lines
+      .map((line, index) => (line.trim() === quoted ? index + 1 : 0))
+      .filter(Boolean);
+    if (matches.length) {
+      const target = reported ?? matches[0];
+      return matches.reduce((best, line) => (Math.abs(line - target) < Math.abs(best - target) ? line : best));
+    }
+  }
+  return reported && reported <= lines.length ? reported : undefined;
+}
+
+// Turn a failed render (HTTP 400) into a syntax error with a line number.
+// The PlantUML server sends X-PlantUML-Diagram-Error(-Line) headers when CORS
+// exposes them and always draws the error into the returned image; Kroki
+// answers with a plain-text message.
+export async function parseSyntaxError(response: Response, source: string): Promise<PlantUMLSyntaxError> {
+  const headerMessage = response.headers.get('X-PlantUML-Diagram-Error');
+  const headerLine = response.headers.get('X-PlantUML-Diagram-Error-Line');
+  const body = await response.text().catch(() => '');
+
+  let message = headerMessage ?? '';
+  let reported = headerLine ? Number(headerLine) + 1 : undefined;
+  let quoted: string | undefined;
+
+  if (body.trimStart().startsWith('<')) {
+    const texts = svgTextLines(body);
+    const locationIndex = texts.findIndex(text => /^\[From .*line/i.test(text));
+    const location = texts[locationIndex]?.match(LINE_PATTERNS[1]);
+    if (location) reported = Number(location[1]);
+
+    // After the location come the source lines up to the failing one, then
+    // the message itself
+    const errorIndex = texts.findIndex((text, index) => index > locationIndex && /error|cannot|unknown|expecting/i.test(text));
+    if (errorIndex > 0) {
+      message ||= texts[errorIndex];
+      if (errorIndex - 1 > locationIndex) quoted = texts[errorIndex - 1];
+    }
+  } else if (body.trim()) {
+    const match = LINE_PATTERNS.map(pattern => body.match(pattern)).find(Boolean);
+    if (match) reported = Number(match[1]);
+    message ||= body.trim().replace(/^Error \d+:\s*/, '').split('\n')[0];
+  }
+
+  const line = resolveLine(source, reported, quoted);
+  return new PlantUMLSyntaxError(message || 'Syntax Error?', line);
+}
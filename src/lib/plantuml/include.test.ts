@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { IncludeFile, PlantUMLIncludeError, includeKey, resolveIncludes } from './include';
+
+const library: IncludeFile[] = [
+  { name: 'styles', content: '@startuml\nskinparam monochrome true\n!include macros\n@enduml' },
+  { name: 'macros', folder: 'lib', content: '!define ACTOR(x) actor x' },
+  { name: 'multi', content: '@startuml one\nA -> B\n@enduml\n@startuml two\nC -> D\n@enduml' },
+  { name: 'loopA', content: '!include loopB' },
+  { name: 'loopB', content: '!include loopA' },
+];
+
+const caught = (run: () => unknown) => {
+  try {
+    run();
+  } catch (error) {
+    return error as PlantUMLIncludeError;
+  }
+  throw new Error('Expected an include error');
+};
+
+describe('includeKey', () => {
+  it('ignores case, a leading ./ and the PlantUML extension', () => {
+    expect(includeKey('./Lib/Macros.PUML')).toBe('lib/macros');
+  });
+});
+
+describe('resolveIncludes', () => {
+  it('expands nested includes and maps their lines to the top-level include', () => {
+    const resolved = resolveIncludes(
+      '@startuml\n!include <styles>\n!include styles.puml\n!include_many lib/macros.puml\nA -> B\n@enduml',
+      library
+    );
+
+    expect(resolved.source).toBe(
+      [
+        '@startuml',
+        'skinparam monochrome true',
+        '!define ACTOR(x) actor x',
+        '!define ACTOR(x) actor x',
+        'A -> B',
+        '@enduml',
+      ].join('\n')
+    );
+    expect(resolved.lines).toEqual([1, 2, 2, 4, 5, 6]);
+  });
+
+  it('leaves standard library and URL includes for the server', () => {
+    const source = '@startuml\n!include <C4/C4_Container>\n!include https://example.com/a.puml\n@enduml';
+    expect(resolveIncludes(source, library).source).toBe(source);
+  });
+
+  it('picks a block by index or by name', () => {
+    expect(resolveIncludes('!include multi!1', library).source).toBe('C -> D');
+    expect(resolveIncludes('!include multi!one', library).source).toBe('A -> B');
+  });
+
+  it('includes a file once per diagram of a multi-diagram source', () => {
+    const resolved = resolveIncludes('@startuml\n!include lib/macros\n@enduml\n@startuml\n!include_once macros\n@enduml', library);
+    expect(resolved.source.match(/!define/g)).toHaveLength(2);
+  });
+
+  it('reports a missing include on its line', () => {
+    const error = caught(() => resolveIncludes('@startuml\nA -> B\n!include missing.puml\n@enduml', library));
+    expect(error).toBeInstanceOf(PlantUMLIncludeError);
+    expect(error.message).toBe('Cannot include "missing.puml": no saved diagram with that name is marked as includable.');
+    expect(error.line).toBe(3);
+  });
+
+  it('reports an unknown block selector', () => {
+    const error = caught(() => resolveIncludes('!include multi!three', library));
+    expect(error.message).toBe('Cannot include "multi!three": "multi" has no such diagram.');
+  });
+
+  it('reports include cycles on the top-level line', () => {
+    const error = caught(() => resolveIncludes('@startuml\n!include loopA\n@enduml', library));
+    expect(error.message).toBe('Include cycle: loopA → loopB → loopA.');
+    expect(error.line).toBe(2);
+  });
+});
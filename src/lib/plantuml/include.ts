@@ -0,0 +1,136 @@
+import { blockBody, splitSourceBlocks } from './source';
+import { PlantUMLSyntaxError } from './types';
+
+// A saved diagram other diagrams may pull in with !include
+export interface IncludeFile {
+  name: string;
+  folder?: string;
+  content: string;
+}
+
+export interface ResolvedSource {
+  source: string;
+  // For each line of `source`, the 1-based line of the original it came
+  // from. Included text maps to the !include line that brought it in.
+  lines: number[];
+}
+
+// An !include that cannot be resolved, reported like a syntax error on the
+// line holding it
+export class PlantUMLIncludeError extends PlantUMLSyntaxError {
+  constructor(message: string, public include: string, line?: number) {
+    super(message, line);
+    this.name = 'PlantUMLIncludeError';
+  }
+}
+
+interface IncludeDirective {
+  kind: 'include' | 'include_once' | 'include_many';
+  target: string;
+  // `name!1` picks a block by index, `name!id` by its @startuml name
+  selector?: string;
+  // Standard library includes and URLs go to the server when no saved
+  // diagram has the name
+  passThrough: boolean;
+}
+
+const INCLUDE = /^\s*!(include|include_once|include_many)\s+(.+?)\s*$/i;
+const EXTENSION = /\.(puml|plantuml|wsd|iuml)$/i;
+const BLOCK_START = /^\s*@start\w+/;
+
+// Names match case-insensitively, with or without a PlantUML extension
+export const includeKey = (name: string) => name.trim().replace(/^\.\//, '').replace(EXTENSION, '').toLowerCase();
+
+function parseInclude(line: string): IncludeDirective | null {
+  const match = line.match(INCLUDE);
+  if (!match) return null;
+
+  let target = match[2];
+  const angled = /^<.*>$/.test(target);
+  target = target.replace(/^<(.*)>$/, '$1').replace(/^"(.*)"$/, '$1').trim();
+  const isUrl = /^https?:\/\//i.test(target);
+
+  const bang = isUrl ? -1 : target.lastIndexOf('!');
+  return {
+    kind: match[1].toLowerCase() as IncludeDirective['kind'],
+    target: bang > 0 ? target.slice(0, bang) : target,
+    selector: bang > 0 ? target.slice(bang + 1) : undefined,
+    passThrough: angled || isUrl,
+  };
+}
+
+function selectBlock(file: IncludeFile, selector: string | undefined) {
+  const blocks = splitSourceBlocks(file.content);
+  const block = selector === undefined
+    ? blocks[0]
+    : /^\d+$/.test(selector) ? blocks[Number(selector)] : blocks.find(candidate => candidate.name === selector);
+  return block && blockBody(block.source);
+}
+
+// Replace every !include naming a saved diagram with that diagram's content,
+// recursively, before the source goes to the server. Like PlantUML, !include
+// and !include_once take a file once per diagram and !include_many every time. Missing
+// includes and include cycles throw a PlantUMLIncludeError on the line of
+// the top-level !include.
+export function resolveIncludes(source: string, library: IncludeFile[]): ResolvedSource {
+  const files = new Map<string, IncludeFile>();
+  library.forEach(file => {
+    [file.name, file.folder && `${file.folder}/${file.name}`].forEach(name => {
+      if (name && !files.has(includeKey(name))) files.set(includeKey(name), file);
+    });
+  });
+
+  const resolved: ResolvedSource = { source: '', lines: [] };
+  const output: string[] = [];
+  const included = new Set<string>();
+
+  const expand = (text: string, chain: string[], lineOf: (index: number) => number) => {
+    text.split('\n').forEach((line, index) => {
+      const sourceLine = lineOf(index);
+      // Each diagram of a multi-diagram source includes its files afresh
+      if (!chain.length && BLOCK_START.test(line)) included.clear();
+      const directive = parseInclude(line);
+      const file = directive && files.get(includeKey(directive.target));
+
+      if (!directive || (!file && directive.passThrough)) {
+        output.push(line);
+        resolved.lines.push(sourceLine);
+        return;
+      }
+
+      const from = chain.length ? ` (included from ${chain.join(' → ')})` : '';
+      if (!file) {
+        throw new PlantUMLIncludeError(
+          `Cannot include "${directive.target}"${from}: no saved diagram with that name is marked as includable.`,
+          directive.target,
+          sourceLine
+        );
+      }
+      if (chain.includes(file.name)) {
+        throw new PlantUMLIncludeError(
+          `Include cycle: ${[...chain, file.name].join(' → ')}.`,
+          directive.target,
+          sourceLine
+        );
+      }
+
+      const id = `${file.name}!${directive.selector ?? ''}`;
+      if (directive.kind !== 'include_many' && included.has(id)) return;
+      included.add(id);
+
+      const body = selectBlock(file, directive.selector);
+      if (body === undefined) {
+        throw new PlantUMLIncludeError(
+          `Cannot include "${directive.target}!${directive.selector}"${from}: "${file.name}" has no such diagram.`,
+          directive.target,
+          sourceLine
+        );
+      }
+      expand(body, [...chain, file.name], () => sourceLine);
+    });
+  };
+
+  expand(source, [], index => index + 1);
+  resolved.source = output.join('\n');
+  return resolved;
+}
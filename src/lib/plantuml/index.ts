@@ -0,0 +1,7 @@
+export * from './types';
+export { SERVER_DEFAULTS, SERVER_OPTIONS, loadServerSettings, saveServerSettings } from './settings';
+export { checkServerHealth, diagramUrl, renderPlantUML, renderPlantUMLPages } from './server';
+export { PLANTUML_FILE_EXTENSIONS, blockBody, diagramsFromFile, fileBaseName, isPlantUMLFile, splitPages, splitSourceBlocks } from './source';
+export type { DiagramPage, SourceBlock, SourceFile } from './source';
+export { PlantUMLIncludeError, includeKey, resolveIncludes } from './include';
+export type { IncludeFile, ResolvedSource } from './include';
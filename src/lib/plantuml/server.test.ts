@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { diagramUrl, renderPlantUMLPages } from './server';
+import { PlantUMLSyntaxError } from './types';
+
+const KROKI = { kind: 'kroki' as const, baseUrl: 'https://kroki.example/' };
+const PLANTUML = { kind: 'plantuml' as const, baseUrl: 'https://plantuml.example' };
+
+const SOURCE = '@startuml\nA -> B\n@enduml\n\n@startuml\nskinparam monochrome true\nB -> C\nnewpage\nC -> ?\n@enduml';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('diagramUrl', () => {
+  it('picks later pages by index and has no URL for Kroki', () => {
+    expect(diagramUrl(PLANTUML, '@startuml\n@enduml', 'svg', 2)).toMatch(/^https:\/\/plantuml\.example\/svg\/2\/\S+$/);
+    expect(diagramUrl(KROKI, '@startuml\n@enduml')).toBeNull();
+  });
+});
+
+describe('renderPlantUMLPages', () => {
+  it('sends each page to Kroki on its own', async () => {
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response('<svg/>'));
+    vi.stubGlobal('fetch', fetch);
+
+    const blobs = await renderPlantUMLPages(KROKI, SOURCE);
+
+    expect(blobs).toHaveLength(3);
+    expect(fetch.mock.calls.map(([url, init]) => [url, init.body])).toEqual([
+      ['https://kroki.example/plantuml/svg', '@startuml\nA -> B\n@enduml'],
+      ['https://kroki.example/plantuml/svg', '@startuml\nskinparam monochrome true\nB -> C\n@enduml'],
+      ['https://kroki.example/plantuml/svg', '@startuml\nskinparam monochrome true\nC -> ?\n@enduml'],
+    ]);
+  });
+
+  it('reports a Kroki syntax error on its line in the whole source', async () => {
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) =>
+      String(init.body).includes('?')
+        ? new Response('Error 400: Syntax Error? (line: 3)', { status: 400 })
+        : new Response('<svg/>')));
+
+    const error = await renderPlantUMLPages(KROKI, SOURCE).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(PlantUMLSyntaxError);
+    expect(error.line).toBe(9);
+  });
+});
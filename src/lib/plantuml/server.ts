@@ -0,0 +1,100 @@
+import { encode } from 'plantuml-encoder';
+import { parseSyntaxError } from './errors';
+import { splitPages } from './source';
+import { PlantUMLFormat, PlantUMLServerError, PlantUMLServerSettings, PlantUMLSyntaxError } from './types';
+
+const HEALTH_CHECK_SOURCE = `@startuml
+A -> B
+@enduml`;
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+// Where the browser can GET a rendering. Kroki takes the source as a POST
+// body, so only PlantUML servers have a shareable URL. Pages after the first
+// are picked by their index in the path.
+export function diagramUrl(settings: PlantUMLServerSettings, source: string, format: PlantUMLFormat = 'svg', page = 0) {
+  if (settings.kind !== 'plantuml') return null;
+  return `${trimSlashes(settings.baseUrl)}/${format}/${page ? `${page}/` : ''}${encode(source)}`;
+}
+
+// Render PlantUML source on the configured server. Invalid source becomes a
+// PlantUMLSyntaxError, unreachable servers and other HTTP failures a
+// PlantUMLServerError; aborts are rethrown untouched.
+export async function renderPlantUML(
+  settings: PlantUMLServerSettings,
+  source: string,
+  format: PlantUMLFormat = 'svg',
+  signal?: AbortSignal,
+  page = 0
+): Promise<Blob> {
+  const url = settings.kind === 'kroki'
+    ? `${trimSlashes(settings.baseUrl)}/plantuml/${format}`
+    : diagramUrl(settings, source, format, page)!;
+
+  let response: Response;
+  try {
+    response = settings.kind === 'kroki'
+      ? await fetch(url, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: source, signal })
+      : await fetch(url, { signal });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new PlantUMLServerError(`Could not reach the PlantUML server at ${settings.baseUrl}.`);
+  }
+
+  if (response.status === 400) {
+    throw await parseSyntaxError(response, source);
+  }
+  if (!response.ok) {
+    throw new PlantUMLServerError(`The PlantUML server responded with ${response.status}.`, response.status);
+  }
+
+  return response.blob();
+}
+
+// Render every page of a source, in order. PlantUML servers render a page of
+// the full source, so state carries across `newpage` as it does in PlantUML
+// itself; Kroki only renders the first page, so there each page is sent as a
+// diagram of its own.
+export async function renderPlantUMLPages(
+  settings: PlantUMLServerSettings,
+  source: string,
+  format: PlantUMLFormat = 'svg',
+  signal?: AbortSignal
+): Promise<Blob[]> {
+  const pages = splitPages(source);
+  if (pages.length === 1) return [await renderPlantUML(settings, source, format, signal)];
+
+  return Promise.all(pages.map(async page => {
+    if (settings.kind !== 'kroki') return renderPlantUML(settings, source, format, signal, page.index);
+    try {
+      return await renderPlantUML(settings, page.source, format, signal);
+    } catch (error) {
+      // Kroki numbers the lines of the page it was sent; report them as
+      // lines of the whole source
+      if (error instanceof PlantUMLSyntaxError) {
+        throw new PlantUMLSyntaxError(error.message, error.line && page.lines[error.line - 1]);
+      }
+      throw error;
+    }
+  }));
+}
+
+// A server counts as online when it renders a trivial diagram in time.
+export async function checkServerHealth(settings: PlantUMLServerSettings, signal?: AbortSignal): Promise<boolean> {
+  const timeout = new AbortController();
+  const timer = setTimeout(() => timeout.abort(), HEALTH_CHECK_TIMEOUT);
+  const abort = () => timeout.abort();
+  signal?.addEventListener('abort', abort);
+
+  try {
+    await renderPlantUML(settings, HEALTH_CHECK_SOURCE, 'svg', timeout.signal);
+    return true;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    return false;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
@@ -0,0 +1,46 @@
+import { PlantUMLServerKind, PlantUMLServerSettings } from './types';
+
+const STORAGE_KEY = 'plantuml-server-settings';
+
+export const SERVER_OPTIONS: { id: PlantUMLServerKind; label: string; description: string }[] = [
+  {
+    id: 'plantuml',
+    label: 'PlantUML server',
+    description: 'A self-hosted PlantUML server, started with "docker run -p 8080:8080 plantuml/plantuml-server:jetty", or "java -jar plantuml.jar -picoweb:8080" with the URL ending in /plantuml.',
+  },
+  {
+    id: 'kroki',
+    label: 'Kroki',
+    description: 'A Kroki instance, started with "docker run -p 8000:8000 yuzutech/kroki".',
+  },
+];
+
+export const SERVER_DEFAULTS: Record<PlantUMLServerKind, PlantUMLServerSettings> = {
+  plantuml: {
+    kind: 'plantuml',
+    baseUrl: 'http://localhost:8080',
+  },
+  kroki: {
+    kind: 'kroki',
+    baseUrl: 'http://localhost:8000',
+  },
+};
+
+export function loadServerSettings(): PlantUMLServerSettings {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<PlantUMLServerSettings>;
+      if (parsed.kind && parsed.kind in SERVER_DEFAULTS) {
+        return { ...SERVER_DEFAULTS[parsed.kind], ...parsed };
+      }
+    }
+  } catch (error) {
+    console.error('Error loading PlantUML server settings:', error);
+  }
+  return SERVER_DEFAULTS.plantuml;
+}
+
+export function saveServerSettings(settings: PlantUMLServerSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { blockBody, diagramsFromFile, fileBaseName, isPlantUMLFile, splitPages, splitSourceBlocks } from './source';
+
+describe('isPlantUMLFile', () => {
+  it('accepts the PlantUML extensions in any case', () => {
+    expect(['a.puml', 'b.PlantUML', 'c.wsd'].every(isPlantUMLFile)).toBe(true);
+    expect(isPlantUMLFile('notes.txt')).toBe(false);
+  });
+});
+
+describe('fileBaseName', () => {
+  it('drops only the last extension', () => {
+    expect(fileBaseName('flows.v2.puml')).toBe('flows.v2');
+  });
+});
+
+describe('splitSourceBlocks', () => {
+  it('splits blocks, reads their names and drops text between them', () => {
+    const blocks = splitSourceBlocks(
+      "' header comment\r\n@startuml login\r\nA -> B\r\n@enduml\r\nstray\r\n@startuml(id=\"logout\")\r\nB -> A\r\n@enduml",
+    );
+    expect(blocks).toEqual([
+      { name: 'login', line: 2, source: '@startuml login\nA -> B\n@enduml' },
+      { name: 'logout', line: 6, source: '@startuml(id="logout")\nB -> A\n@enduml' },
+    ]);
+  });
+
+  it('only closes a block on its own @end kind', () => {
+    const blocks = splitSourceBlocks('@startmindmap\n* root\n@enduml\n** child\n@endmindmap');
+    expect(blocks).toEqual([{ name: undefined, line: 1, source: '@startmindmap\n* root\n@enduml\n** child\n@endmindmap' }]);
+  });
+
+  it('keeps an unterminated block', () => {
+    expect(splitSourceBlocks('@startuml\nA -> B')).toEqual([{ name: undefined, line: 1, source: '@startuml\nA -> B' }]);
+  });
+
+  it('returns a source without @start lines whole', () => {
+    expect(splitSourceBlocks('\nA -> B\n')).toEqual([{ line: 2, source: 'A -> B' }]);
+  });
+});
+
+describe('diagramsFromFile', () => {
+  it('names a single unnamed block after the file', () => {
+    expect(diagramsFromFile('checkout.puml', '@startuml\nA -> B\n@enduml')).toEqual([
+      { name: 'checkout', content: '@startuml\nA -> B\n@enduml' },
+    ]);
+  });
+
+  it('numbers unnamed blocks and keeps named ones', () => {
+    const content = '@startuml\nA -> B\n@enduml\n@startuml named\nB -> C\n@enduml\n@startuml\nC -> D\n@enduml';
+    expect(diagramsFromFile('flows.wsd', content).map(diagram => diagram.name)).toEqual([
+      'flows (1)',
+      'named',
+      'flows (2)',
+    ]);
+  });
+});
+
+describe('splitPages', () => {
+  it('numbers pages across blocks and carries settings onto later pages', () => {
+    const pages = splitPages(
+      '@startuml seq\nskinparam monochrome true\nA -> B\nnewpage Two\nB -> C\n@enduml\n\n@startuml\nX -> Y\n@enduml',
+    );
+    expect(pages).toEqual([
+      {
+        index: 0,
+        name: 'seq',
+        source: '@startuml seq\nskinparam monochrome true\nA -> B\n@enduml',
+        lines: [1, 2, 3, 6],
+      },
+      {
+        index: 1,
+        name: 'seq',
+        source: '@startuml seq\nskinparam monochrome true\ntitle Two\nB -> C\n@enduml',
+        lines: [1, 2, 4, 5, 6],
+      },
+      { index: 2, name: undefined, source: '@startuml\nX -> Y\n@enduml', lines: [8, 9, 10] },
+    ]);
+  });
+
+  it('keeps a block without newpage as it is', () => {
+    const source = '@startuml\nA -> B\n@enduml';
+    expect(splitPages(source)).toEqual([{ index: 0, name: undefined, source, lines: [1, 2, 3] }]);
+  });
+
+  it('frames pages of a source without @start lines', () => {
+    const pages = splitPages('A -> B\nnewpage\nB -> C');
+    expect(pages.map(page => page.source)).toEqual(['@startuml\nA -> B\n@enduml', '@startuml\nB -> C\n@enduml']);
+    expect(pages.map(page => page.lines)).toEqual([[1, 1, 3], [1, 3, 3]]);
+  });
+});
+
+describe('blockBody', () => {
+  it('strips the @start and @end lines', () => {
+    expect(blockBody('@startuml x\nA -> B\n@enduml')).toBe('A -> B');
+    expect(blockBody('A -> B')).toBe('A -> B');
+  });
+});
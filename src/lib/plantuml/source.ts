@@ -0,0 +1,149 @@
+export const PLANTUML_FILE_EXTENSIONS = ['.puml', '.plantuml', '.wsd'];
+
+export interface SourceBlock {
+  // From `@startuml name` or `@startuml(id=name)`, when given
+  name?: string;
+  // 1-based line of the block's first line in the whole source
+  line: number;
+  source: string;
+}
+
+export interface SourceFile {
+  name: string;
+  content: string;
+}
+
+const START = /^\s*@start(\w+)(?:\s*\(\s*id\s*=\s*([^)]+?)\s*\)|\s+(.+?))?\s*$/;
+const END = /^\s*@end(\w+)\s*$/;
+
+export const isPlantUMLFile = (fileName: string) =>
+  PLANTUML_FILE_EXTENSIONS.some(extension => fileName.toLowerCase().endsWith(extension));
+
+export const fileBaseName = (fileName: string) => fileName.replace(/\.[^./\\]+$/, '');
+
+// Split a source into its @start…@end blocks. Text outside the blocks is
+// dropped; a source without any @start line is returned whole.
+export function splitSourceBlocks(source: string): SourceBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: SourceBlock[] = [];
+  let current: { name?: string; kind: string; line: number; lines: string[] } | null = null;
+
+  lines.forEach((line, index) => {
+    if (!current) {
+      const start = line.match(START);
+      if (start) {
+        current = { kind: start[1], name: (start[2] ?? start[3])?.replace(/^"|"$/g, ''), line: index + 1, lines: [line] };
+      }
+      return;
+    }
+    current.lines.push(line);
+    const end = line.match(END);
+    if (end && end[1] === current.kind) {
+      blocks.push({ name: current.name, line: current.line, source: current.lines.join('\n') });
+      current = null;
+    }
+  });
+
+  // An unterminated block is still worth keeping; PlantUML reports the error
+  if (current) blocks.push({ name: current.name, line: current.line, source: current.lines.join('\n') });
+  if (blocks.length) return blocks;
+
+  const leadingLines = source.match(/^\s*/)![0].split('\n').length - 1;
+  return [{ line: leadingLines + 1, source: source.trim() }];
+}
+
+// Turn an opened file into one named diagram per block. Blocks without a
+// name of their own take the file's name, numbered when there are several.
+export function diagramsFromFile(fileName: string, content: string): SourceFile[] {
+  const blocks = splitSourceBlocks(content);
+  const base = fileBaseName(fileName);
+  let unnamed = 0;
+
+  return blocks.map(block => {
+    if (block.name) return { name: block.name, content: block.source };
+    unnamed += 1;
+    return { name: blocks.length > 1 ? `${base} (${unnamed})` : base, content: block.source };
+  });
+}
+
+export interface DiagramPage {
+  // The page's position across the whole source, as PlantUML numbers them
+  index: number;
+  // Block name, when the block has one
+  name?: string;
+  // The page as a diagram of its own, for servers that only render page one
+  source: string;
+  // For each line of `source`, the 1-based line of the whole source it came
+  // from, so errors reported against the page can be shown in the editor
+  lines: number[];
+}
+
+const NEWPAGE = /^\s*newpage\b\s*(.*?)\s*$/i;
+// Settings that apply to every page of a block, so pages rendered on their
+// own keep the look of the first one
+const SHARED_SETTING = /^\s*(skinparam\b|!theme\b|!pragma\b|!include\w*\b|hide\b|show\b|scale\b)/i;
+
+// A block's @start and @end lines and the lines between them. Text without
+// them gets a default frame.
+function frameOf(source: string) {
+  const lines = source.split('\n');
+  const hasStart = START.test(lines[0] ?? '');
+  const hasEnd = hasStart && lines.length > 1 && END.test(lines[lines.length - 1]);
+  return {
+    header: hasStart ? lines[0] : '@startuml',
+    // Index of the first body line within the block
+    bodyStart: hasStart ? 1 : 0,
+    body: lines.slice(hasStart ? 1 : 0, hasEnd ? -1 : undefined),
+    footer: hasEnd ? lines[lines.length - 1] : '@enduml',
+  };
+}
+
+// What a block contains without its @start and @end lines
+export const blockBody = (source: string) => frameOf(source).body.join('\n');
+
+interface PageLine {
+  text: string;
+  line: number;
+}
+
+// Every page of a source: one per @start block, plus one per `newpage`
+// inside a block.
+export function splitPages(source: string): DiagramPage[] {
+  const pages: DiagramPage[] = [];
+
+  splitSourceBlocks(source).forEach(block => {
+    const { header, bodyStart, body, footer } = frameOf(block.source);
+    const blockLines = block.source.split('\n').map((_, index) => block.line + index);
+
+    // `newpage Some title` titles the page that follows it
+    const segments: PageLine[][] = [[]];
+    body.forEach((text, index) => {
+      const line = blockLines[bodyStart + index];
+      const newpage = text.match(NEWPAGE);
+      if (newpage) segments.push(newpage[1] ? [{ text: `title ${newpage[1]}`, line }] : []);
+      else segments[segments.length - 1].push({ text, line });
+    });
+
+    if (segments.length === 1) {
+      pages.push({ index: pages.length, name: block.name, source: block.source, lines: blockLines });
+      return;
+    }
+
+    const shared = segments[0].filter(entry => SHARED_SETTING.test(entry.text));
+    segments.forEach((segment, position) => {
+      const content = [
+        { text: header, line: blockLines[0] },
+        ...(position === 0 ? segment : [...shared, ...segment]),
+        { text: footer, line: blockLines[blockLines.length - 1] },
+      ];
+      pages.push({
+        index: pages.length,
+        name: block.name,
+        source: content.map(entry => entry.text).join('\n'),
+        lines: content.map(entry => entry.line),
+      });
+    });
+  });
+
+  return pages;
+}
@@ -0,0 +1,26 @@
+export type PlantUMLServerKind = 'plantuml' | 'kroki';
+
+export interface PlantUMLServerSettings {
+  kind: PlantUMLServerKind;
+  baseUrl: string;
+}
+
+export type PlantUMLFormat = 'svg' | 'png';
+
+export type ServerHealth = 'checking' | 'online' | 'offline';
+
+export class PlantUMLServerError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'PlantUMLServerError';
+  }
+}
+
+// The server understood the request but the source does not parse. `line` is
+// 1-based in the editor's text when it could be determined.
+export class PlantUMLSyntaxError extends PlantUMLServerError {
+  constructor(message: string, public line?: number) {
+    super(message, 400);
+    this.name = 'PlantUMLSyntaxError';
+  }
+}
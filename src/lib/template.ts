@@ -0,0 +1,19 @@
+const PLACEHOLDER = /\{\{\s*([^}]+)\s*\}\}/g;
+
+export function extractPlaceholders(template: string) {
+  const placeholders = new Set<string>();
+
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    placeholders.add(match[1].trim());
+  }
+
+  return Array.from(placeholders);
+}
+
+// Replace every {{ placeholder }} that has a value; unknown ones are left in place.
+export function fillTemplate(template: string, values: Record<string, string>) {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) => {
+    const value = values[name.trim()];
+    return value === undefined ? placeholder : value;
+  });
+}
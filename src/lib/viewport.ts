@@ -0,0 +1,68 @@
+// Pan and zoom state for a diagram drawn at `scale` with its top-left corner
+// at (x, y) in viewport pixels.
+export interface ViewState {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const MIN_SCALE = 0.1;
+export const MAX_SCALE = 8;
+
+export const clampScale = (scale: number) => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// Center the content and shrink it to fit. Like the exports, never upscales:
+// a small diagram blown up to fill the frame is harder to read, not easier.
+export function fitView(content: Size, viewport: Size, padding = 16): ViewState {
+  if (!content.width || !content.height) return { scale: 1, x: 0, y: 0 };
+  const scale = clampScale(Math.min(
+    (viewport.width - padding * 2) / content.width,
+    (viewport.height - padding * 2) / content.height,
+    1
+  ));
+  return {
+    scale,
+    x: (viewport.width - content.width * scale) / 2,
+    y: (viewport.height - content.height * scale) / 2,
+  };
+}
+
+// Zoom by `factor` keeping the content under `point` (viewport pixels) still
+export function zoomAt(view: ViewState, factor: number, point: Point): ViewState {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return {
+    scale,
+    x: point.x - (point.x - view.x) * ratio,
+    y: point.y - (point.y - view.y) * ratio,
+  };
+}
+
+// Move the view so `point` (content pixels) sits in the middle of the viewport
+export function centerOn(view: ViewState, point: Point, viewport: Size): ViewState {
+  return {
+    ...view,
+    x: viewport.width / 2 - point.x * view.scale,
+    y: viewport.height / 2 - point.y * view.scale,
+  };
+}
+
+// The part of the content currently on screen, in content pixels
+export function visibleRegion(view: ViewState, viewport: Size) {
+  return {
+    x: -view.x / view.scale,
+    y: -view.y / view.scale,
+    width: viewport.width / view.scale,
+    height: viewport.height / view.scale,
+  };
+}